@@ -55,14 +55,24 @@ export class LambdaApiExample {
   }
 
   /**
-   * Returns the completed JavaScript build
+   * Returns the container after running the build, stamped with the commit
    */
-  @func()
-  build(): Directory {
+  private built(gitSha: string): Container {
     return this.base()
       .withDirectory("/src/node_modules/", this.installDeps())
-      .withExec(["yarn", "build"])
-      .directory("./dist");
+      .withEnvVariable("GIT_SHA", gitSha)
+      .withExec(["yarn", "build"]);
+  }
+
+  /**
+   * Returns the completed JavaScript build: one self-contained bundle with
+   * the page's Tailwind CSS compiled in
+   * @param gitSha The commit being built, reported by /api/version. The
+   * build container has no .git to read it from, so it must be passed.
+   */
+  @func()
+  build(gitSha: string): Directory {
+    return this.built(gitSha).directory("./dist");
   }
 
   /**
@@ -79,12 +89,11 @@ export class LambdaApiExample {
 
   /**
    * Creates the Lambda deployment package
+   * @param gitSha The commit being built, reported by /api/version
    */
   @func()
-  zip(): File {
-    return this.base()
-      .withDirectory("/src/node_modules/", this.installDeps())
-      .withExec(["yarn", "build"])
+  zip(gitSha: string): File {
+    return this.built(gitSha)
       .withExec(["yarn", "zip"])
       .file("./function.zip");
   }
@@ -93,6 +102,7 @@ export class LambdaApiExample {
    * Runs the full build and deploy process
    * @param accessKey The AWS Secret Access Key to use when deploying
    * @param secretKey The AWS Secret Key to use when deploying
+   * @param gitSha The commit being deployed, reported by /api/version
    * @param sessionToken The AWS Session Token to use when deploying
    * @param region The AWS Region to use when deploying
    * @returns The URL of the deployed Lambda function
@@ -101,6 +111,7 @@ export class LambdaApiExample {
   async deploy(
     accessKey: Secret,
     secretKey: Secret,
+    gitSha: string,
     sessionToken?: Secret,
     region: string = "us-east-2"
   ): Promise<string> {
@@ -130,12 +141,12 @@ export class LambdaApiExample {
         roleArn,
         "index.handler",
         "nodejs20.x",
-        this.zip()
+        this.zip(gitSha)
       );
     } else {
       console.log("Updating existing function " + this.functionName);
 
-      await lambda.updateCode(this.functionName, this.zip());
+      await lambda.updateCode(this.functionName, this.zip(gitSha));
     }
 
     // create the function URL
@@ -0,0 +1,48 @@
+// Sends the forms on /docs with fetch and shows the response under each.
+for (const form of document.querySelectorAll('form[data-path]')) {
+  form.addEventListener('submit', async (event) => {
+    event.preventDefault();
+    const method = form.dataset.method;
+    const out = form.querySelector('pre');
+    const query = new URLSearchParams();
+    const headers = { accept: 'application/json' };
+    let path = form.dataset.path;
+    let body;
+
+    for (const field of form.querySelectorAll('[data-in]')) {
+      const value = field.value.trim();
+      if (!value) continue;
+      switch (field.dataset.in) {
+        case 'path':
+          path = path.replace('{' + field.name + '}', encodeURIComponent(value));
+          break;
+        case 'query':
+          query.append(field.name, value);
+          break;
+        case 'header':
+          headers[field.name] = value;
+          break;
+        case 'body':
+          body = value;
+          headers['content-type'] = 'application/json';
+          break;
+      }
+    }
+
+    const url = path + (query.toString() ? '?' + query : '');
+    out.hidden = false;
+    out.textContent = method + ' ' + url + '\n\nLoading...';
+    try {
+      const res = await fetch(url, { method, headers, body });
+      let text = await res.text();
+      try {
+        text = JSON.stringify(JSON.parse(text), null, 2);
+      } catch {
+        // Not JSON; show it as sent
+      }
+      out.textContent = method + ' ' + url + '\n\n' + res.status + ' ' + res.statusText + '\n\n' + text;
+    } catch (e) {
+      out.textContent = 'Error: ' + (e?.message || e);
+    }
+  });
+}
@@ -6,12 +6,14 @@ export default {
         '^(\\.{1,2}/.*)\\.js$': '$1',
     },
     testEnvironment: 'node',
+    setupFiles: ['<rootDir>/tests/setup-env.ts', '<rootDir>/tests/setup.ts'],
     roots: ['<rootDir>/src', '<rootDir>/tests'],
     testMatch: ['**/__tests__/**/*.ts', '**/?(*.)+(spec|test).ts'],
     transform: {
         '^.+\\.ts$': ['ts-jest', {
             useESM: true,
         }],
+        '^.+\\.(css|html)$': '<rootDir>/tests/text-transform.cjs',
     },
     collectCoverageFrom: [
         'src/**/*.ts',
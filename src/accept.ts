@@ -0,0 +1,75 @@
+export interface MediaRange {
+  type: string;
+  subtype: string;
+  q: number;
+}
+
+/**
+ * Parses an Accept header into media ranges. Ranges with an invalid or
+ * missing q-value default to q=1.
+ */
+export function parseAccept(header: string | undefined): MediaRange[] {
+  if (!header || !header.trim()) return [{ type: "*", subtype: "*", q: 1 }];
+
+  const ranges: MediaRange[] = [];
+  for (const part of header.split(",")) {
+    const [range, ...params] = part.split(";").map((p) => p.trim());
+    const [type, subtype] = range.toLowerCase().split("/");
+    if (!type || !subtype) continue;
+
+    let q = 1;
+    for (const param of params) {
+      const [key, value] = param.split("=").map((p) => p.trim());
+      if (key === "q") {
+        const parsed = Number(value);
+        q = Number.isFinite(parsed) ? Math.min(Math.max(parsed, 0), 1) : 1;
+      }
+    }
+    ranges.push({ type, subtype, q });
+  }
+  return ranges;
+}
+
+function specificity(range: MediaRange): number {
+  if (range.type === "*") return 0;
+  return range.subtype === "*" ? 1 : 2;
+}
+
+/**
+ * Quality the client assigned to a concrete media type, taken from the most
+ * specific range that matches it. 0 means not acceptable.
+ */
+function quality(ranges: MediaRange[], mediaType: string): number {
+  const [type, subtype] = mediaType.toLowerCase().split("/");
+  let best: MediaRange | undefined;
+  for (const range of ranges) {
+    const matches =
+      (range.type === "*" || range.type === type) &&
+      (range.subtype === "*" || range.subtype === subtype);
+    if (matches && (!best || specificity(range) > specificity(best))) {
+      best = range;
+    }
+  }
+  return best ? best.q : 0;
+}
+
+/**
+ * Picks the best of `available` for an Accept header. Ties go to the type
+ * listed first. Returns undefined when nothing is acceptable.
+ */
+export function negotiate(
+  accept: string | undefined,
+  available: string[]
+): string | undefined {
+  const ranges = parseAccept(accept);
+  let chosen: string | undefined;
+  let chosenQ = 0;
+  for (const mediaType of available) {
+    const q = quality(ranges, mediaType);
+    if (q > chosenQ) {
+      chosen = mediaType;
+      chosenQ = q;
+    }
+  }
+  return chosen;
+}
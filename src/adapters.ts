@@ -0,0 +1,252 @@
+import type {
+  ALBResult,
+  APIGatewayProxyResult,
+  APIGatewayProxyStructuredResultV2,
+} from "aws-lambda";
+import { STATUS_CODES } from "http";
+import type {
+  AlbEvent,
+  EventSource,
+  FunctionUrlEvent,
+  HttpRequest,
+  LambdaEvent,
+  RestApiEvent,
+} from "./event";
+import type { HttpResponse } from "./response";
+
+export type LambdaResult =
+  APIGatewayProxyStructuredResultV2 | APIGatewayProxyResult | ALBResult;
+
+type Headers = Record<string, string | undefined>;
+type MultiValue = Record<string, (string | undefined)[] | undefined>;
+
+/**
+ * Works out which service invoked the function from the event shape.
+ * Anything unrecognised is treated as a Function URL event.
+ */
+export function detectSource(event: LambdaEvent): EventSource {
+  const context = (event.requestContext || {}) as Record<string, unknown>;
+  if ("elb" in context) return "alb";
+  if ("httpMethod" in event) return "rest-api";
+  const domain = String(context.domainName || "");
+  if ("apiId" in context && !domain.includes(".lambda-url.")) {
+    return "http-api";
+  }
+  return "function-url";
+}
+
+/**
+ * Merges single and multi-value maps into one map, comma-joining repeated
+ * values the way v2 events do.
+ */
+function mergeValues(
+  single: Headers | null | undefined,
+  multi: MultiValue | null | undefined,
+  lowerCase: boolean,
+  decode = (value: string) => value
+): Headers {
+  const merged: Headers = {};
+  const key = (name: string) => (lowerCase ? name.toLowerCase() : name);
+  for (const [name, value] of Object.entries(single || {})) {
+    if (value !== undefined) merged[key(name)] = decode(value);
+  }
+  for (const [name, values] of Object.entries(multi || {})) {
+    const present = (values || []).filter((v): v is string => v !== undefined);
+    if (present.length > 0) merged[key(name)] = present.map(decode).join(",");
+  }
+  return merged;
+}
+
+function toQueryString(query: Headers): string {
+  const params = new URLSearchParams();
+  for (const [name, value] of Object.entries(query)) {
+    for (const item of (value || "").split(",")) params.append(name, item);
+  }
+  return params.toString();
+}
+
+function splitCookies(header: string | undefined): string[] {
+  if (!header) return [];
+  return header
+    .split(";")
+    .map((cookie) => cookie.trim())
+    .filter(Boolean);
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, " "));
+  } catch {
+    return value;
+  }
+}
+
+function fromFunctionUrl(
+  event: FunctionUrlEvent,
+  source: EventSource
+): HttpRequest {
+  const headers = mergeValues(event.headers, undefined, true);
+  const cookies = (event.cookies || []).filter(
+    (c): c is string => typeof c === "string"
+  );
+  // Function URLs and HTTP APIs move the cookie header into `cookies`
+  if (cookies.length > 0 && !headers["cookie"]) {
+    headers["cookie"] = cookies.join("; ");
+  }
+
+  return {
+    source,
+    method: event.requestContext?.http?.method || "GET",
+    path: event.rawPath || "/",
+    rawQueryString: event.rawQueryString || "",
+    query: mergeValues(event.queryStringParameters, undefined, false),
+    headers,
+    cookies: cookies.length > 0 ? cookies : splitCookies(headers["cookie"]),
+    body: event.body,
+    isBase64Encoded: !!event.isBase64Encoded,
+    requestId: event.requestContext?.requestId,
+    sourceIp: event.requestContext?.http?.sourceIp,
+    userAgent: event.requestContext?.http?.userAgent,
+    raw: event,
+  };
+}
+
+function fromRestApi(event: RestApiEvent): HttpRequest {
+  const headers = mergeValues(event.headers, event.multiValueHeaders, true);
+  const query = mergeValues(
+    event.queryStringParameters,
+    event.multiValueQueryStringParameters,
+    false
+  );
+
+  return {
+    source: "rest-api",
+    method: event.httpMethod || "GET",
+    path: event.path || "/",
+    rawQueryString: toQueryString(query),
+    query,
+    headers,
+    cookies: splitCookies(headers["cookie"]),
+    body: event.body ?? undefined,
+    isBase64Encoded: !!event.isBase64Encoded,
+    requestId: event.requestContext?.requestId,
+    sourceIp: event.requestContext?.identity?.sourceIp,
+    userAgent:
+      event.requestContext?.identity?.userAgent ?? headers["user-agent"],
+    raw: event,
+  };
+}
+
+function fromAlb(event: AlbEvent): HttpRequest {
+  const headers = mergeValues(event.headers, event.multiValueHeaders, true);
+  // ALB passes query parameters through exactly as the client encoded them
+  const query = mergeValues(
+    event.queryStringParameters,
+    event.multiValueQueryStringParameters,
+    false,
+    safeDecode
+  );
+
+  return {
+    source: "alb",
+    method: event.httpMethod || "GET",
+    path: event.path || "/",
+    rawQueryString: toQueryString(query),
+    query,
+    headers,
+    cookies: splitCookies(headers["cookie"]),
+    body: event.body ?? undefined,
+    isBase64Encoded: !!event.isBase64Encoded,
+    // ALB assigns no request ID; X-Amzn-Trace-Id is the trace, not one
+    requestId: undefined,
+    sourceIp: headers["x-forwarded-for"]?.split(",")[0].trim(),
+    userAgent: headers["user-agent"],
+    raw: event,
+  };
+}
+
+/**
+ * Normalizes any supported Lambda event into an HttpRequest.
+ */
+export function toHttpRequest(event: LambdaEvent): HttpRequest {
+  const source = detectSource(event);
+  switch (source) {
+    case "alb":
+      return fromAlb(event as AlbEvent);
+    case "rest-api":
+      return fromRestApi(event as RestApiEvent);
+    default:
+      return fromFunctionUrl(event as FunctionUrlEvent, source);
+  }
+}
+
+function singleValueHeaders(response: HttpResponse): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(response.headers || {})) {
+    headers[name] = String(value);
+  }
+  return headers;
+}
+
+function multiValueHeaders(response: HttpResponse): Record<string, string[]> {
+  const headers: Record<string, string[]> = {};
+  for (const [name, value] of Object.entries(singleValueHeaders(response))) {
+    headers[name] = [value];
+  }
+  if (response.cookies && response.cookies.length > 0) {
+    headers["set-cookie"] = response.cookies;
+  }
+  return headers;
+}
+
+/**
+ * Converts the internal response into the result shape the event source
+ * expects.
+ */
+export function toLambdaResult(
+  request: HttpRequest,
+  response: HttpResponse
+): LambdaResult {
+  const body = response.body ?? "";
+  const isBase64Encoded = !!response.isBase64Encoded;
+
+  switch (request.source) {
+    case "rest-api": {
+      const result: APIGatewayProxyResult = {
+        statusCode: response.statusCode ?? 200,
+        headers: singleValueHeaders(response),
+        body,
+        isBase64Encoded,
+      };
+      // API Gateway merges both maps; only cookies need multiple values
+      if (response.cookies && response.cookies.length > 0) {
+        result.multiValueHeaders = { "set-cookie": response.cookies };
+      }
+      return result;
+    }
+    case "alb": {
+      const statusCode = response.statusCode ?? 200;
+      const result: ALBResult = {
+        statusCode,
+        statusDescription:
+          `${statusCode} ${STATUS_CODES[statusCode] || ""}`.trim(),
+        body,
+        isBase64Encoded,
+      };
+      // ALB only accepts multiValueHeaders when the target group enables them,
+      // which is signalled by the request carrying multiValueHeaders too
+      if ((request.raw as AlbEvent).multiValueHeaders) {
+        result.multiValueHeaders = multiValueHeaders(response);
+      } else {
+        result.headers = singleValueHeaders(response);
+        // Without multi-value headers only one cookie can be set
+        if (response.cookies && response.cookies.length > 0) {
+          result.headers["set-cookie"] = response.cookies[0];
+        }
+      }
+      return result;
+    }
+    default:
+      return response;
+  }
+}
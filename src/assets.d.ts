@@ -0,0 +1,12 @@
+// Stylesheets and templates are bundled as text; see src/build.ts
+
+/** Compiled by the Tailwind plugin in src/tailwind.ts */
+declare module "*.css" {
+  const css: string;
+  export default css;
+}
+
+declare module "*.html" {
+  const html: string;
+  export default html;
+}
@@ -0,0 +1,130 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { config } from "./config";
+import { ForbiddenError, UnauthorizedError } from "./errors";
+import { JwtError, scopesOf, verifyJwt } from "./jwt";
+import type { Middleware } from "./middleware";
+
+export interface AuthOptions {
+  /** Scopes the token must grant, all of them */
+  scopes?: string[];
+}
+
+/**
+ * Builds a `WWW-Authenticate` challenge for the Bearer scheme (RFC 6750).
+ */
+export function bearerChallenge(params: Record<string, string> = {}): string {
+  const attributes = Object.entries({ realm: config.auth.realm, ...params })
+    .map(([name, value]) => `${name}="${value.replace(/["\\]/g, "\\$&")}"`)
+    .join(", ");
+  return `Bearer ${attributes}`;
+}
+
+function bearerToken(authorization: string | undefined): string | undefined {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(authorization || "");
+  return match?.[1];
+}
+
+/**
+ * Requires a valid `Authorization: Bearer` JWT, and optionally scopes.
+ * The verified claims are put on `request.auth` for route handlers.
+ *
+ * Missing or invalid tokens get a 401 and a token lacking a required scope
+ * a 403, both with a `WWW-Authenticate` challenge.
+ */
+export function requireAuth(options: AuthOptions = {}): Middleware {
+  const required = options.scopes || [];
+
+  const middleware: Middleware = async (request, next) => {
+    const token = bearerToken(request.headers["authorization"]);
+    if (!token) {
+      throw new UnauthorizedError("A bearer token is required", {
+        headers: { "www-authenticate": bearerChallenge() },
+      });
+    }
+
+    try {
+      request.auth = verifyJwt(token, config.auth);
+    } catch (err) {
+      if (!(err instanceof JwtError)) throw err;
+      throw new UnauthorizedError(err.message, {
+        headers: {
+          "www-authenticate": bearerChallenge({
+            error: "invalid_token",
+            error_description: err.message,
+          }),
+        },
+      });
+    }
+
+    const granted = scopesOf(request.auth);
+    const missing = required.filter((scope) => !granted.includes(scope));
+    if (missing.length > 0) {
+      throw new ForbiddenError(`Missing scope: ${missing.join(" ")}`, {
+        headers: {
+          "www-authenticate": bearerChallenge({
+            error: "insufficient_scope",
+            scope: required.join(" "),
+          }),
+        },
+      });
+    }
+    return next();
+  };
+  middleware.auth = { scheme: "bearer", scopes: required, optional: false };
+  return middleware;
+}
+
+/**
+ * The form API keys are configured in: a hex SHA-256 digest.
+ */
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+function findApiKey(key: string): string | undefined {
+  const digest = Buffer.from(hashApiKey(key), "hex");
+  // Compare against every entry so timing does not reveal which matched
+  let name: string | undefined;
+  for (const entry of config.auth.apiKeys) {
+    if (timingSafeEqual(digest, Buffer.from(entry.hash, "hex"))) {
+      name ??= entry.name;
+    }
+  }
+  return name;
+}
+
+export interface ApiKeyOptions {
+  /** Let requests without a key through; a wrong key is still refused */
+  optional?: boolean;
+}
+
+/**
+ * Checks the `x-api-key` header against the configured key hashes and
+ * puts the key's name on `request.apiKey`.
+ */
+export function requireApiKey(options: ApiKeyOptions = {}): Middleware {
+  const middleware: Middleware = async (request, next) => {
+    const key = request.headers["x-api-key"];
+    if (!key && options.optional) return next();
+
+    const name = key ? findApiKey(key) : undefined;
+    if (!name) {
+      throw new UnauthorizedError(
+        key ? "Invalid API key" : "An API key is required",
+        {
+          headers: {
+            "www-authenticate": `ApiKey realm="${config.auth.realm}"`,
+          },
+        }
+      );
+    }
+    request.apiKey = name;
+    return next();
+  };
+  middleware.auth = {
+    scheme: "apiKey",
+    scopes: [],
+    optional: !!options.optional,
+  };
+  return middleware;
+}
@@ -0,0 +1,93 @@
+import {
+  BadRequestError,
+  PayloadTooLargeError,
+  UnsupportedMediaTypeError,
+} from "./errors";
+import type { HttpRequest } from "./event";
+
+/**
+ * Parsed request body, discriminated by the content type it was read as.
+ */
+export type RequestBody =
+  | { type: "none" }
+  | { type: "json"; value: unknown }
+  | { type: "form"; value: Record<string, string | string[]> }
+  | { type: "text"; value: string };
+
+export interface BodyOptions {
+  /** Maximum decoded body size in bytes */
+  maxBytes?: number;
+}
+
+export const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Returns the lower-cased media type of a content-type header, without
+ * parameters such as charset.
+ */
+export function mediaType(contentType: string | undefined): string {
+  return (contentType || "").split(";")[0].trim().toLowerCase();
+}
+
+function parseForm(text: string): Record<string, string | string[]> {
+  const form: Record<string, string | string[]> = {};
+  for (const [key, value] of new URLSearchParams(text)) {
+    const existing = form[key];
+    if (existing === undefined) {
+      form[key] = value;
+    } else if (Array.isArray(existing)) {
+      existing.push(value);
+    } else {
+      form[key] = [existing, value];
+    }
+  }
+  return form;
+}
+
+/**
+ * Decodes and parses `request.body` based on the request content type.
+ * Base64 payloads from Function URLs are decoded first.
+ */
+export function parseBody(
+  request: HttpRequest,
+  options: BodyOptions = {}
+): RequestBody {
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_BODY_BYTES;
+  const raw = request.body;
+  if (!raw) {
+    return { type: "none" };
+  }
+
+  const bytes = request.isBase64Encoded
+    ? Buffer.from(raw, "base64")
+    : Buffer.from(raw, "utf8");
+  if (bytes.length > maxBytes) {
+    throw new PayloadTooLargeError(
+      `Request body exceeds the ${maxBytes} byte limit`
+    );
+  }
+
+  const text = bytes.toString("utf8");
+  const type = mediaType(request.headers["content-type"]);
+
+  if (type === "application/json" || type.endsWith("+json")) {
+    try {
+      return { type: "json", value: JSON.parse(text) };
+    } catch (err) {
+      const reason = (err as Error).message;
+      throw new BadRequestError(`Malformed JSON body: ${reason}`);
+    }
+  }
+
+  if (type === "application/x-www-form-urlencoded") {
+    return { type: "form", value: parseForm(text) };
+  }
+
+  if (type.startsWith("text/")) {
+    return { type: "text", value: text };
+  }
+
+  throw new UnsupportedMediaTypeError(
+    type ? `Unsupported content type "${type}"` : "Missing content type"
+  );
+}
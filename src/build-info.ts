@@ -0,0 +1,20 @@
+// Replaced with string literals by esbuild's define in src/build.ts;
+// undefined when running from source under Jest or the dev server.
+declare const __BUILD_VERSION__: string | undefined;
+declare const __BUILD_SHA__: string | undefined;
+declare const __BUILD_TIME__: string | undefined;
+
+export interface BuildInfo {
+  /** package.json version */
+  version: string;
+  /** Git commit the bundle was built from */
+  commit: string;
+  /** When the bundle was built, as an ISO 8601 timestamp */
+  builtAt: string;
+}
+
+export const buildInfo: Readonly<BuildInfo> = Object.freeze({
+  version: typeof __BUILD_VERSION__ === "string" ? __BUILD_VERSION__ : "dev",
+  commit: typeof __BUILD_SHA__ === "string" ? __BUILD_SHA__ : "unknown",
+  builtAt: typeof __BUILD_TIME__ === "string" ? __BUILD_TIME__ : "unknown",
+});
@@ -0,0 +1,66 @@
+/**
+ * Production build: `yarn build`.
+ *
+ * Bundles src/index.ts into dist/index.mjs with the page's Tailwind CSS
+ * and the files under assets/ embedded, so the function needs nothing from
+ * a CDN, and stamps the bundle with the version, commit and build time for
+ * /api/version. A config.json (or CONFIG_FILE) is embedded too, as the
+ * defaults the function's environment variables override.
+ */
+import { execSync } from "child_process";
+import { existsSync, readFileSync } from "fs";
+import { build } from "esbuild";
+import { readAssets } from "./static";
+import { tailwind } from "./tailwind";
+
+function gitSha(): string {
+  if (process.env.GIT_SHA) return process.env.GIT_SHA;
+  try {
+    return execSync("git rev-parse HEAD", {
+      stdio: ["ignore", "pipe", "ignore"],
+    })
+      .toString()
+      .trim();
+  } catch {
+    return "unknown";
+  }
+}
+
+// Parsed here so a broken file fails the build rather than the cold start
+function configFile(): unknown {
+  const path = process.env.CONFIG_FILE || "config.json";
+  return existsSync(path) ? JSON.parse(readFileSync(path, "utf8")) : null;
+}
+
+async function main() {
+  await build({
+    entryPoints: ["src/index.ts"],
+    bundle: true,
+    platform: "node",
+    format: "esm",
+    target: "node20",
+    outfile: "dist/index.mjs",
+    sourcemap: true,
+    minify: true,
+    logLevel: "warning",
+    define: {
+      __BUILD_VERSION__: JSON.stringify(
+        process.env.npm_package_version || "dev"
+      ),
+      __BUILD_SHA__: JSON.stringify(gitSha()),
+      __BUILD_TIME__: JSON.stringify(
+        new Date().toISOString().replace(/\.\d+Z$/, "Z")
+      ),
+      // Everything under assets/, content-hashed and embedded in the bundle
+      __ASSETS__: JSON.stringify(readAssets("assets")),
+      __CONFIG_FILE__: JSON.stringify(configFile()),
+    },
+    loader: { ".html": "text" },
+    plugins: [tailwind({ minify: true })],
+  });
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,144 @@
+import { createHash } from "crypto";
+import type { HttpRequest } from "./event";
+import type { HttpResponse } from "./response";
+
+/**
+ * How a route's responses may be cached by browsers and CDNs.
+ */
+export type CachePolicy =
+  | { type: "no-store" }
+  | { type: "private"; maxAge?: number; lastModified?: Date }
+  | {
+      type: "public";
+      maxAge?: number;
+      /** Shared-cache (CDN) lifetime, overriding maxAge there */
+      sMaxAge?: number;
+      /** The response never changes for this URL, e.g. hashed assets */
+      immutable?: boolean;
+      lastModified?: Date;
+    };
+
+export function cacheControl(policy: CachePolicy): string {
+  if (policy.type === "no-store") return "no-store";
+
+  const directives: string[] = [policy.type, `max-age=${policy.maxAge ?? 0}`];
+  if (policy.type === "public") {
+    if (policy.sMaxAge !== undefined) {
+      directives.push(`s-maxage=${policy.sMaxAge}`);
+    }
+    if (policy.immutable) directives.push("immutable");
+  }
+  if (!policy.maxAge && !(policy.type === "public" && policy.immutable)) {
+    directives.push("must-revalidate");
+  }
+  return directives.join(", ");
+}
+
+/**
+ * Computes a strong ETag from the response body bytes.
+ */
+export function computeEtag(body: string, isBase64Encoded = false): string {
+  const bytes = Buffer.from(body, isBase64Encoded ? "base64" : "utf8");
+  const digest = createHash("sha256").update(bytes).digest("base64url");
+  return `"${digest.slice(0, 27)}"`;
+}
+
+/**
+ * Sets cache-control, ETag and Last-Modified on a successful response.
+ */
+export function applyCachePolicy(
+  result: HttpResponse,
+  policy: CachePolicy
+): HttpResponse {
+  const headers: Record<string, string | number | boolean> = {
+    ...result.headers,
+    "cache-control": cacheControl(policy),
+  };
+
+  // A streamed body is not known yet, so there is nothing to hash
+  if (
+    result.statusCode === 200 &&
+    result.body !== undefined &&
+    !result.stream
+  ) {
+    headers["etag"] ??= computeEtag(result.body, result.isBase64Encoded);
+  }
+  if (policy.type !== "no-store" && policy.lastModified) {
+    headers["last-modified"] = policy.lastModified.toUTCString();
+  }
+  return { ...result, headers };
+}
+
+/**
+ * Compares ETags the way If-None-Match requires: weak comparison, so a
+ * `W/` prefix on either side is ignored.
+ */
+function etagMatches(ifNoneMatch: string, etag: string): boolean {
+  if (ifNoneMatch.trim() === "*") return true;
+  const opaque = (tag: string) => tag.trim().replace(/^W\//, "");
+  return ifNoneMatch
+    .split(",")
+    .some((candidate) => opaque(candidate) === opaque(etag));
+}
+
+/**
+ * Whether the client's cached copy is still current. If-None-Match takes
+ * precedence; If-Modified-Since is only consulted without it.
+ */
+export function isNotModified(
+  request: HttpRequest,
+  result: HttpResponse
+): boolean {
+  const { method } = request;
+  if ((method !== "GET" && method !== "HEAD") || result.statusCode !== 200) {
+    return false;
+  }
+
+  const headers = result.headers || {};
+  const ifNoneMatch = request.headers["if-none-match"];
+  if (ifNoneMatch) {
+    return (
+      !!headers["etag"] && etagMatches(ifNoneMatch, String(headers["etag"]))
+    );
+  }
+
+  const ifModifiedSince = request.headers["if-modified-since"];
+  const lastModified = headers["last-modified"];
+  if (ifModifiedSince && lastModified) {
+    const since = Date.parse(ifModifiedSince);
+    const modified = Date.parse(String(lastModified));
+    return !Number.isNaN(since) && modified <= since;
+  }
+  return false;
+}
+
+/**
+ * Headers a 304 keeps from the full response, per RFC 9110 section 15.4.5.
+ */
+const NOT_MODIFIED_HEADERS = [
+  "cache-control",
+  "content-location",
+  "date",
+  "etag",
+  "expires",
+  "last-modified",
+  "vary",
+];
+
+/**
+ * Replaces a response with a bodiless 304 when the client's copy is fresh.
+ */
+export function conditional(
+  request: HttpRequest,
+  result: HttpResponse
+): HttpResponse {
+  if (!isNotModified(request, result)) return result;
+
+  const headers: Record<string, string | number | boolean> = {};
+  for (const [name, value] of Object.entries(result.headers || {})) {
+    if (NOT_MODIFIED_HEADERS.includes(name.toLowerCase())) {
+      headers[name] = value;
+    }
+  }
+  return { statusCode: 304, headers, body: "" };
+}
@@ -0,0 +1,115 @@
+import { brotliCompressSync, constants, gzipSync } from "zlib";
+import type { HttpRequest } from "./event";
+import { appendVary, type HttpResponse } from "./response";
+
+export type Encoding = "br" | "gzip";
+
+export interface CompressionOptions {
+  /** Bodies smaller than this many bytes are sent as-is */
+  threshold?: number;
+  /** Encodings the server is willing to use, in order of preference */
+  encodings?: Encoding[];
+}
+
+export const DEFAULT_COMPRESSION_THRESHOLD = 1024;
+
+const COMPRESSIBLE = /^text\/|[/+](json|xml|yaml|javascript)\b|^image\/svg/;
+
+/**
+ * Whether a content type benefits from compression. Images, archives and
+ * other already-compressed formats are left alone.
+ */
+export function isCompressible(contentType: string | undefined): boolean {
+  return !!contentType && COMPRESSIBLE.test(contentType.toLowerCase());
+}
+
+/**
+ * Picks an encoding from an Accept-Encoding header, honouring q-values and
+ * `*`. Returns undefined when the client accepts none of `encodings`.
+ */
+export function selectEncoding(
+  acceptEncoding: string | undefined,
+  encodings: Encoding[] = ["br", "gzip"]
+): Encoding | undefined {
+  if (!acceptEncoding) return undefined;
+
+  const weights = new Map<string, number>();
+  for (const part of acceptEncoding.split(",")) {
+    const [name, ...params] = part.split(";").map((p) => p.trim());
+    if (!name) continue;
+    const q = params.find((p) => p.startsWith("q="));
+    const weight = q ? Number(q.slice(2)) : 1;
+    weights.set(name.toLowerCase(), Number.isFinite(weight) ? weight : 1);
+  }
+
+  let chosen: Encoding | undefined;
+  let chosenWeight = 0;
+  for (const encoding of encodings) {
+    const weight = weights.get(encoding) ?? weights.get("*") ?? 0;
+    if (weight > chosenWeight) {
+      chosen = encoding;
+      chosenWeight = weight;
+    }
+  }
+  return chosen;
+}
+
+function encode(body: Buffer, encoding: Encoding): Buffer {
+  if (encoding === "br") {
+    // Quality 5 keeps CPU time low for per-request compression
+    return brotliCompressSync(body, {
+      params: {
+        [constants.BROTLI_PARAM_QUALITY]: 5,
+        [constants.BROTLI_PARAM_SIZE_HINT]: body.length,
+      },
+    });
+  }
+  return gzipSync(body);
+}
+
+/**
+ * Compresses a response body when the client supports it. The compressed
+ * body is base64 encoded, as Function URLs require for binary payloads.
+ */
+export function compress(
+  request: HttpRequest,
+  result: HttpResponse,
+  options: CompressionOptions = {}
+): HttpResponse {
+  const threshold = options.threshold ?? DEFAULT_COMPRESSION_THRESHOLD;
+  const headers = { ...result.headers };
+  const body = result.body;
+
+  if (
+    !body ||
+    result.isBase64Encoded ||
+    headers["content-encoding"] ||
+    !isCompressible(String(headers["content-type"] || ""))
+  ) {
+    return result;
+  }
+
+  const raw = Buffer.from(body, "utf8");
+  if (raw.length < threshold) return result;
+
+  // The response now depends on Accept-Encoding, whether or not we compress
+  appendVary(headers, "Accept-Encoding");
+
+  const encoding = selectEncoding(
+    request.headers["accept-encoding"],
+    options.encodings
+  );
+  if (!encoding) return { ...result, headers };
+
+  headers["content-encoding"] = encoding;
+  // Strong ETags must differ between encodings of the same resource
+  if (typeof headers["etag"] === "string") {
+    headers["etag"] = headers["etag"].replace(/"$/, `-${encoding}"`);
+  }
+  return {
+    ...result,
+    headers,
+    body: encode(raw, encoding).toString("base64"),
+    isBase64Encoded: true,
+  };
+}
@@ -0,0 +1,395 @@
+import { existsSync, readFileSync } from "fs";
+import bundledJwks from "./jwks.json";
+import { s, type Infer, type Schema, type ValidationIssue } from "./schema";
+
+const LOG_LEVELS = ["debug", "info", "warn", "error", "silent"] as const;
+
+const sourceList = s.array(s.string());
+
+const jwk = s.object({
+  kty: s.string(),
+  kid: s.string().optional(),
+  alg: s.string().optional(),
+  use: s.string().optional(),
+  n: s.string().optional(),
+  e: s.string().optional(),
+  crv: s.string().optional(),
+  x: s.string().optional(),
+  y: s.string().optional(),
+});
+
+/**
+ * Every setting, its type and its default. Values come from the optional
+ * config file, overridden by the environment variables in `ENV_VARS`.
+ */
+export const configSchema = s.object({
+  /** Include stack traces and internal error messages in error responses */
+  debug: s.boolean().default(false),
+  cors: s.object({
+    /** Allowed origins; `*` for any, `https://*.example.com` for subdomains */
+    origins: sourceList.default(["*"]),
+    methods: sourceList.default([
+      "GET",
+      "HEAD",
+      "POST",
+      "PUT",
+      "PATCH",
+      "DELETE",
+    ]),
+    allowedHeaders: sourceList.default([
+      "content-type",
+      "authorization",
+      "x-api-key",
+    ]),
+    exposedHeaders: sourceList.default([]),
+    credentials: s.boolean().default(false),
+    maxAge: s.integer({ min: 0 }).default(600),
+  }),
+  compression: s.object({
+    enabled: s.boolean().default(true),
+    /** Bodies smaller than this many bytes are sent uncompressed */
+    threshold: s.integer({ min: 0 }).default(1024),
+  }),
+  log: s.object({
+    level: s.enum(LOG_LEVELS).default("info"),
+    /** Headers whose values are replaced before logging */
+    redactHeaders: sourceList.default([
+      "authorization",
+      "proxy-authorization",
+      "cookie",
+      "set-cookie",
+      "x-api-key",
+    ]),
+  }),
+  auth: s.object({
+    /** Shown to clients in `WWW-Authenticate` challenges */
+    realm: s.string({ minLength: 1 }).default("api"),
+    /** Shared secret for HS256 tokens; HS256 is refused without one */
+    secret: s.string({ minLength: 1 }).optional(),
+    /** Keys for RS256/ES256 tokens; defaults to the bundled src/jwks.json */
+    jwks: s.object({ keys: s.array(jwk) }).default(bundledJwks),
+    /** Required `iss`, when set */
+    issuer: s.string({ minLength: 1 }).optional(),
+    /** Accepted `aud` values; any audience when empty */
+    audience: sourceList.default([]),
+    /** Leeway for `exp` and `nbf` between our clock and the issuer's */
+    clockSkewSeconds: s.integer({ min: 0 }).default(60),
+    /**
+     * API keys for `x-api-key`, as SHA-256 hashes of the key. Only hashes
+     * are configured, so a leaked config does not leak usable keys.
+     */
+    apiKeys: s
+      .array(
+        s.object({
+          name: s.string({ minLength: 1 }),
+          hash: s.string({ pattern: /^[0-9a-f]{64}$/ }),
+        })
+      )
+      .default([]),
+  }),
+  rateLimit: s.object({
+    enabled: s.boolean().default(true),
+    /** Requests allowed in a burst, per API key or source IP */
+    capacity: s.integer({ min: 1 }).default(60),
+    /** Sustained requests per second */
+    refillPerSecond: s.number({ greaterThan: 0 }).default(1),
+  }),
+  metrics: s.object({
+    /** Write Embedded Metric Format lines to stdout */
+    enabled: s.boolean().default(true),
+    namespace: s.string({ minLength: 1 }).default("LambdaExample"),
+    /** The `Service` dimension on every metric */
+    service: s.string({ minLength: 1 }).default("lambda-example"),
+  }),
+  deadline: s.object({
+    /**
+     * Routes still running this long before the invocation times out are
+     * answered with a 504, leaving time to send it
+     */
+    marginMs: s.integer({ min: 0 }).default(500),
+  }),
+  tracing: s.object({
+    /** Where request spans go: `console` for JSON lines on stdout, or `none` */
+    exporter: s.enum(["console", "none"]).default("none"),
+  }),
+  streaming: s.object({
+    /** Streamed responses are wound up this long before the deadline */
+    deadlineMarginMs: s.integer({ min: 0 }).default(1000),
+  }),
+  security: s.object({
+    /** Strict default for API responses; HTML routes relax it per route */
+    contentSecurityPolicy: s
+      .union(s.literal(false), s.record(sourceList))
+      .default({
+        "default-src": ["'none'"],
+        // Lets HTML error pages use the layout's inline styles
+        "style-src": ["'nonce'"],
+        "base-uri": ["'none'"],
+        "form-action": ["'none'"],
+      }),
+    frameAncestors: sourceList.default(["'none'"]),
+    hsts: s
+      .union(
+        s.literal(false),
+        s.object({
+          maxAge: s.integer({ min: 0 }).default(31536000),
+          includeSubDomains: s.boolean().default(true),
+          preload: s.boolean().default(false),
+        })
+      )
+      .default({ maxAge: 31536000, includeSubDomains: true, preload: false }),
+    referrerPolicy: s.string({ minLength: 1 }).default("no-referrer"),
+    /** Browser features nothing here uses, turned off */
+    permissionsPolicy: s.record(sourceList).default({
+      camera: [],
+      microphone: [],
+      geolocation: [],
+      payment: [],
+    }),
+  }),
+});
+
+export type Config = Infer<typeof configSchema>;
+
+function list(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/** `name:sha256hex` pairs; the schema checks the hashes */
+function apiKeys(value: string): { name: string; hash: string }[] {
+  return list(value).map((entry) => {
+    const [name, hash = ""] = entry.split(":");
+    return { name, hash: hash.toLowerCase() };
+  });
+}
+
+interface EnvVar {
+  /** Dotted path of the setting, e.g. `cors.maxAge` */
+  path: string;
+  /** Turns the value into what the schema expects, beyond numbers and booleans */
+  parse?: (value: string) => unknown;
+}
+
+/** The environment variables read, and the settings they set */
+const ENV_VARS: Record<string, EnvVar> = {
+  // Shared with the `debug` package, whose values (e.g. `*`) mean false here
+  DEBUG: { path: "debug", parse: (value) => value === "true" },
+  CORS_ORIGINS: { path: "cors.origins", parse: list },
+  CORS_METHODS: { path: "cors.methods", parse: list },
+  CORS_ALLOWED_HEADERS: { path: "cors.allowedHeaders", parse: list },
+  CORS_EXPOSED_HEADERS: { path: "cors.exposedHeaders", parse: list },
+  CORS_CREDENTIALS: { path: "cors.credentials" },
+  CORS_MAX_AGE: { path: "cors.maxAge" },
+  COMPRESSION: { path: "compression.enabled" },
+  COMPRESSION_THRESHOLD: { path: "compression.threshold" },
+  LOG_LEVEL: { path: "log.level", parse: (value) => value.toLowerCase() },
+  LOG_REDACT_HEADERS: { path: "log.redactHeaders", parse: list },
+  AUTH_REALM: { path: "auth.realm" },
+  JWT_SECRET: { path: "auth.secret" },
+  JWT_JWKS: { path: "auth.jwks", parse: (value) => JSON.parse(value) },
+  JWT_ISSUER: { path: "auth.issuer" },
+  JWT_AUDIENCE: { path: "auth.audience", parse: list },
+  JWT_CLOCK_SKEW: { path: "auth.clockSkewSeconds" },
+  API_KEYS: { path: "auth.apiKeys", parse: apiKeys },
+  RATE_LIMIT: { path: "rateLimit.enabled" },
+  RATE_LIMIT_CAPACITY: { path: "rateLimit.capacity" },
+  RATE_LIMIT_REFILL: { path: "rateLimit.refillPerSecond" },
+  METRICS: { path: "metrics.enabled" },
+  METRICS_NAMESPACE: { path: "metrics.namespace" },
+  AWS_LAMBDA_FUNCTION_NAME: { path: "metrics.service" },
+  DEADLINE_MARGIN_MS: { path: "deadline.marginMs" },
+  TRACE_EXPORTER: { path: "tracing.exporter" },
+  STREAM_DEADLINE_MARGIN_MS: { path: "streaming.deadlineMarginMs" },
+  FRAME_ANCESTORS: { path: "security.frameAncestors", parse: list },
+  HSTS_MAX_AGE: { path: "security.hsts.maxAge" },
+  HSTS_INCLUDE_SUBDOMAINS: { path: "security.hsts.includeSubDomains" },
+  HSTS_PRELOAD: { path: "security.hsts.preload" },
+  REFERRER_POLICY: { path: "security.referrerPolicy" },
+};
+
+/**
+ * Raised at cold start when the configuration is invalid. Lists every bad
+ * setting, so one deploy is enough to see them all.
+ */
+export class ConfigError extends Error {
+  constructor(readonly issues: ValidationIssue[]) {
+    super(
+      "Invalid configuration:\n" +
+        issues.map((issue) => `  ${issue.field}: ${issue.message}`).join("\n")
+    );
+    this.name = "ConfigError";
+  }
+}
+
+type Tree = Record<string, unknown>;
+
+function isTree(value: unknown): value is Tree {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Merges `overrides` into `base`; arrays and everything else are replaced */
+function merge(base: unknown, overrides: unknown): unknown {
+  if (!isTree(base) || !isTree(overrides)) {
+    return overrides === undefined ? base : overrides;
+  }
+  const out: Tree = { ...base };
+  for (const [key, value] of Object.entries(overrides)) {
+    out[key] = merge(base[key], value);
+  }
+  return out;
+}
+
+function setPath(tree: Tree, path: string, value: unknown): void {
+  const keys = path.split(".");
+  let node = tree;
+  for (const key of keys.slice(0, -1)) {
+    if (!isTree(node[key])) node[key] = {};
+    node = node[key] as Tree;
+  }
+  node[keys[keys.length - 1]] = value;
+}
+
+/**
+ * Empty objects for the required sections of `schema`, so that sections
+ * nothing sets still get their defaults.
+ */
+function sections(schema: Schema<unknown>): Tree {
+  const out: Tree = {};
+  for (const [key, child] of Object.entries(schema.meta.shape || {})) {
+    if (child.meta.shape && !child.meta.optional) {
+      out[key] = sections(child);
+    }
+  }
+  return out;
+}
+
+function deepFreeze<T>(value: T): T {
+  if (typeof value === "object" && value !== null) {
+    for (const child of Object.values(value)) deepFreeze(child);
+    Object.freeze(value);
+  }
+  return value;
+}
+
+/**
+ * Builds the configuration from a config file's contents and the
+ * environment, which wins. Unset and empty variables are ignored. Throws a
+ * ConfigError naming every bad setting and the variable it came from.
+ */
+export function loadConfig(
+  env: Record<string, string | undefined> = process.env,
+  file?: unknown
+): Readonly<Config> {
+  const issues: ValidationIssue[] = [];
+  const fromEnv: Tree = {};
+  const sources = new Map<string, string>();
+
+  for (const [name, { path, parse }] of Object.entries(ENV_VARS)) {
+    const value = env[name]?.trim();
+    if (!value) continue;
+    sources.set(path, name);
+    try {
+      setPath(fromEnv, path, parse ? parse(value) : value);
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      issues.push({ field: `${path} (${name})`, message: reason });
+    }
+  }
+  if (file !== undefined && !isTree(file)) {
+    issues.push({ field: "config file", message: "must be a JSON object" });
+  }
+
+  const checked: ValidationIssue[] = [];
+  const result = configSchema.check(
+    merge(merge(sections(configSchema), file), fromEnv),
+    "",
+    checked,
+    true
+  );
+  for (const issue of checked) {
+    const path = [...sources.keys()].find(
+      (source) =>
+        issue.field === source ||
+        issue.field.startsWith(source + ".") ||
+        issue.field.startsWith(source + "[")
+    );
+    issues.push(
+      path
+        ? { ...issue, field: `${issue.field} (${sources.get(path)})` }
+        : issue
+    );
+  }
+  if (issues.length > 0) throw new ConfigError(issues);
+  return deepFreeze(result);
+}
+
+/** Reads a JSON config file; undefined when there is none */
+export function readConfigFile(path: string): unknown {
+  if (!existsSync(path)) return undefined;
+  try {
+    return JSON.parse(readFileSync(path, "utf8"));
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : String(err);
+    throw new ConfigError([{ field: path, message: reason }]);
+  }
+}
+
+// Replaced with the contents of config.json, or null without one, by
+// esbuild's define in src/build.ts; undefined when running from source,
+// which reads the file instead.
+declare const __CONFIG_FILE__: unknown;
+
+const loaded = loadConfig(
+  process.env,
+  typeof __CONFIG_FILE__ !== "undefined"
+    ? (__CONFIG_FILE__ ?? undefined)
+    : readConfigFile(process.env.CONFIG_FILE || "config.json")
+);
+
+/**
+ * Runtime configuration, read and validated once at cold start. It is
+ * frozen; tests change it with `overrideConfig`.
+ */
+export let config: Readonly<Config> = loaded;
+
+/** Settings to change, by section; arrays are replaced whole */
+export type ConfigOverrides = {
+  [K in keyof Config]?: Config[K] extends Record<string, unknown>
+    ? Partial<Config[K]>
+    : Config[K];
+};
+
+/**
+ * Replaces the configuration with a copy that has `overrides` applied, for
+ * tests. Returns a function that puts the previous one back:
+ *
+ *     const restore = overrideConfig({ log: { level: "debug" } });
+ *     try {
+ *       // ...
+ *     } finally {
+ *       restore();
+ *     }
+ */
+export function overrideConfig(overrides: ConfigOverrides): () => void {
+  const previous = config;
+  const issues: ValidationIssue[] = [];
+  const next = configSchema.check(
+    merge(previous, overrides),
+    "",
+    issues,
+    false
+  );
+  if (issues.length > 0) throw new ConfigError(issues);
+  config = deepFreeze(next);
+  return () => {
+    config = previous;
+  };
+}
+
+/** Goes back to the configuration loaded at cold start */
+export function resetConfig(): void {
+  config = loaded;
+}
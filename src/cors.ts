@@ -0,0 +1,136 @@
+import { ForbiddenError } from "./errors";
+import type { HttpRequest } from "./event";
+import type { Middleware } from "./middleware";
+import { appendVary, type HttpResponse } from "./response";
+
+export interface CorsPolicy {
+  /** Allowed origins; `*` for any, `https://*.example.com` for subdomains */
+  origins: string[];
+  methods: string[];
+  allowedHeaders: string[];
+  exposedHeaders: string[];
+  credentials: boolean;
+  /** How long browsers may cache a preflight result, in seconds */
+  maxAge: number;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Checks an origin against one allowlist entry. A `*.` in the host part
+ * matches any depth of subdomain, but not the bare domain itself.
+ */
+export function originMatches(pattern: string, origin: string): boolean {
+  if (pattern === "*") return true;
+  if (!pattern.includes("*")) {
+    return pattern.toLowerCase() === origin.toLowerCase();
+  }
+
+  const source = pattern.split("*").map(escapeRegExp).join("[^/]+");
+  return new RegExp(`^${source}$`, "i").test(origin);
+}
+
+/**
+ * Returns the value for `access-control-allow-origin`, or undefined when
+ * the origin is not allowed. `*` is only used when no credentials are
+ * involved; otherwise the request origin is reflected.
+ */
+export function allowedOrigin(
+  policy: CorsPolicy,
+  origin: string | undefined
+): string | undefined {
+  const wildcard = policy.origins.includes("*");
+  if (wildcard && !policy.credentials) return "*";
+  if (!origin) return undefined;
+  return policy.origins.some((pattern) => originMatches(pattern, origin))
+    ? origin
+    : undefined;
+}
+
+/**
+ * Whether the allow-origin value depends on the request's Origin header,
+ * in which case caches must be told with `Vary: Origin`.
+ */
+function variesByOrigin(policy: CorsPolicy): boolean {
+  return !policy.origins.includes("*") || policy.credentials;
+}
+
+export function isPreflight(request: HttpRequest): boolean {
+  return (
+    request.method === "OPTIONS" &&
+    !!request.headers["origin"] &&
+    !!request.headers["access-control-request-method"]
+  );
+}
+
+/**
+ * Adds CORS headers for a simple (non-preflight) request to a response.
+ */
+export function applyCors(
+  policy: CorsPolicy,
+  request: HttpRequest,
+  result: HttpResponse
+): HttpResponse {
+  const headers = { ...result.headers };
+  const origin = allowedOrigin(policy, request.headers["origin"]);
+
+  if (variesByOrigin(policy)) appendVary(headers, "Origin");
+  if (origin) {
+    headers["access-control-allow-origin"] = origin;
+    if (policy.credentials) {
+      headers["access-control-allow-credentials"] = "true";
+    }
+    if (policy.exposedHeaders.length > 0) {
+      headers["access-control-expose-headers"] =
+        policy.exposedHeaders.join(", ");
+    }
+  }
+  return { ...result, headers };
+}
+
+/**
+ * Answers an OPTIONS preflight with 204, or rejects origins that are not
+ * on the allowlist.
+ */
+export function preflightResponse(
+  policy: CorsPolicy,
+  request: HttpRequest
+): HttpResponse {
+  const origin = allowedOrigin(policy, request.headers["origin"]);
+  if (!origin) {
+    throw new ForbiddenError("Origin is not allowed by the CORS policy");
+  }
+
+  const headers: Record<string, string> = {
+    "access-control-allow-origin": origin,
+    "access-control-allow-methods": policy.methods.join(", "),
+    "access-control-max-age": String(policy.maxAge),
+  };
+
+  // "*" in the config means "whatever the browser asked for"
+  const requested = request.headers["access-control-request-headers"];
+  const allowHeaders = policy.allowedHeaders.includes("*")
+    ? requested
+    : policy.allowedHeaders.join(", ");
+  if (allowHeaders) headers["access-control-allow-headers"] = allowHeaders;
+
+  if (policy.credentials) headers["access-control-allow-credentials"] = "true";
+  if (variesByOrigin(policy)) appendVary(headers, "Origin");
+
+  return { statusCode: 204, headers, body: "" };
+}
+
+/**
+ * CORS as middleware: answers preflights and adds headers to every other
+ * response, error responses included. Pass a function to read the policy
+ * per request, e.g. from config.
+ */
+export function cors(policy: CorsPolicy | (() => CorsPolicy)): Middleware {
+  return async (request, next) => {
+    const current = typeof policy === "function" ? policy() : policy;
+    if (isPreflight(request)) return preflightResponse(current, request);
+    return applyCors(current, request, await next());
+  };
+}
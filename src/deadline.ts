@@ -0,0 +1,62 @@
+import type { Context } from "aws-lambda";
+import { config } from "./config";
+
+/**
+ * Time budgets for route handlers. A route that runs into the Lambda
+ * timeout gets a generic gateway error naming nothing; one that runs out of
+ * budget first answers with a problem response carrying its request ID.
+ */
+
+/** The reason a handler's signal aborts with when its time is up */
+export type DeadlineAbortReason = "deadline";
+
+/**
+ * Milliseconds a route may run: what is left of the invocation less the
+ * margin, capped by the route's own budget. Infinity when neither applies.
+ */
+export function timeBudget(
+  context: Context | undefined,
+  routeTimeoutMs?: number,
+  marginMs: number = config.deadline.marginMs
+): number {
+  const remaining = context
+    ? context.getRemainingTimeInMillis() - marginMs
+    : Infinity;
+  return Math.min(remaining, routeTimeoutMs ?? Infinity);
+}
+
+/**
+ * Runs `work`, which should give up once its signal aborts. If it has not
+ * settled within `ms`, the signal aborts and the returned promise rejects
+ * with `onTimeout()`; whatever `work` settles with afterwards is dropped.
+ */
+export function runWithin<T>(
+  ms: number,
+  work: (signal: AbortSignal) => Promise<T>,
+  onTimeout: () => Error
+): Promise<T> {
+  const controller = new AbortController();
+  const running = Promise.resolve().then(() => work(controller.signal));
+  if (ms === Infinity) return running;
+
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(
+      () => {
+        const reason: DeadlineAbortReason = "deadline";
+        controller.abort(reason);
+        reject(onTimeout());
+      },
+      Math.max(0, ms)
+    );
+    running.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (err) => {
+        clearTimeout(timer);
+        reject(err);
+      }
+    );
+  });
+}
@@ -0,0 +1,274 @@
+import type {
+  APIGatewayProxyEventV2,
+  APIGatewayProxyStructuredResultV2,
+  Context,
+} from "aws-lambda";
+import { randomUUID } from "crypto";
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from "http";
+import type { LambdaResult } from "./adapters";
+import type { LambdaEvent } from "./event";
+import {
+  ResponseSink,
+  isStreamingHandler,
+  type ResponseMetadata,
+  type StreamingHandler,
+} from "./streaming";
+
+export type LambdaHandler = (
+  event: LambdaEvent,
+  context: Context
+) => Promise<LambdaResult>;
+
+export interface DevServerOptions {
+  /** Function timeout in milliseconds, as configured on the deployed Lambda */
+  timeoutMs?: number;
+  functionName?: string;
+}
+
+/** Matches the `--timeout 10` used by scripts/deploy.sh */
+export const DEFAULT_TIMEOUT_MS = 10_000;
+
+// Function URLs pass these bodies through as text and base64 encode the rest
+const TEXT_BODY =
+  /^text\/|^application\/(x-www-form-urlencoded|[\w.+-]*(json|xml|javascript|yaml))\b/;
+
+const MONTHS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+/** Formats a date like `requestContext.time`, e.g. 12/Jan/2024:09:30:11 +0000 */
+function requestTime(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return (
+    `${pad(date.getUTCDate())}/${MONTHS[date.getUTCMonth()]}/` +
+    `${date.getUTCFullYear()}:${pad(date.getUTCHours())}:` +
+    `${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} +0000`
+  );
+}
+
+/**
+ * Builds the Function URL (payload format 2.0) event Lambda would receive
+ * for a Node HTTP request.
+ */
+export function toFunctionUrlEvent(
+  req: IncomingMessage,
+  body: Buffer,
+  now = new Date()
+): APIGatewayProxyEventV2 {
+  const url = new URL(req.url || "/", "http://localhost");
+  // The Host header stays as sent; the request context names a Function
+  // URL domain, which is how the adapters tell these events apart
+  const domainPrefix = "local";
+  const sourceIp = req.socket.remoteAddress || "127.0.0.1";
+  const userAgent = req.headers["user-agent"] || "";
+
+  const headers: Record<string, string> = {};
+  let cookies: string[] | undefined;
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (value === undefined) continue;
+    // Function URLs move the cookie header into `cookies`
+    if (name === "cookie") {
+      cookies = String(value)
+        .split(";")
+        .map((cookie) => cookie.trim())
+        .filter(Boolean);
+      continue;
+    }
+    headers[name] = Array.isArray(value) ? value.join(",") : value;
+  }
+  headers["x-amzn-trace-id"] ??= `Root=1-${Math.floor(
+    now.getTime() / 1000
+  ).toString(16)}-${randomUUID().replace(/-/g, "").slice(0, 24)}`;
+  headers["x-forwarded-for"] ??= sourceIp;
+  headers["x-forwarded-proto"] ??= "http";
+  headers["x-forwarded-port"] ??= String(req.socket.localPort ?? "");
+
+  const queryStringParameters: Record<string, string> = {};
+  for (const [name, value] of url.searchParams) {
+    queryStringParameters[name] =
+      name in queryStringParameters
+        ? `${queryStringParameters[name]},${value}`
+        : value;
+  }
+
+  const isText = TEXT_BODY.test((headers["content-type"] || "").toLowerCase());
+  const event: APIGatewayProxyEventV2 = {
+    version: "2.0",
+    routeKey: "$default",
+    rawPath: url.pathname,
+    rawQueryString: url.search.slice(1),
+    cookies,
+    headers,
+    queryStringParameters:
+      Object.keys(queryStringParameters).length > 0
+        ? queryStringParameters
+        : undefined,
+    requestContext: {
+      accountId: "anonymous",
+      apiId: domainPrefix,
+      domainName: `${domainPrefix}.lambda-url.local.on.aws`,
+      domainPrefix,
+      http: {
+        method: req.method || "GET",
+        path: url.pathname,
+        protocol: `HTTP/${req.httpVersion}`,
+        sourceIp,
+        userAgent,
+      },
+      requestId: randomUUID(),
+      routeKey: "$default",
+      stage: "$default",
+      time: requestTime(now),
+      timeEpoch: now.getTime(),
+    },
+    body:
+      body.length === 0 ? undefined : body.toString(isText ? "utf8" : "base64"),
+    isBase64Encoded: body.length > 0 && !isText,
+  };
+  return event;
+}
+
+/**
+ * Creates a Lambda context whose remaining time counts down from `timeoutMs`.
+ */
+export function createContext(
+  requestId: string,
+  options: DevServerOptions = {}
+): Context {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const functionName = options.functionName ?? "lambda-example";
+  const deadline = Date.now() + timeoutMs;
+  const unsupported = () => {
+    throw new Error("Callback-style completion is not supported locally");
+  };
+
+  return {
+    callbackWaitsForEmptyEventLoop: true,
+    functionName,
+    functionVersion: "$LATEST",
+    invokedFunctionArn: `arn:aws:lambda:local:000000000000:function:${functionName}`,
+    memoryLimitInMB: "256",
+    awsRequestId: requestId,
+    logGroupName: `/aws/lambda/${functionName}`,
+    logStreamName: `local/[$LATEST]${requestId.replace(/-/g, "")}`,
+    getRemainingTimeInMillis: () => Math.max(0, deadline - Date.now()),
+    done: unsupported,
+    fail: unsupported,
+    succeed: unsupported,
+  };
+}
+
+function writeHead(
+  res: ServerResponse,
+  { statusCode, headers, cookies }: Partial<ResponseMetadata>
+): void {
+  res.statusCode = statusCode ?? 200;
+  for (const [name, value] of Object.entries(headers || {})) {
+    res.setHeader(name, String(value));
+  }
+  if (cookies && cookies.length > 0) res.setHeader("set-cookie", cookies);
+}
+
+/**
+ * Writes a handler result back to the client the way a Function URL would.
+ */
+export function writeResult(res: ServerResponse, result: LambdaResult): void {
+  const { statusCode, headers, cookies, body, isBase64Encoded } =
+    result as APIGatewayProxyStructuredResultV2;
+
+  writeHead(res, {
+    statusCode,
+    headers: headers as ResponseMetadata["headers"],
+    cookies,
+  });
+  res.end(body ? Buffer.from(body, isBase64Encoded ? "base64" : "utf8") : "");
+}
+
+/**
+ * Invokes a streaming handler and passes the body on to the client as it
+ * is written. A client that goes away closes the handler's stream, as it
+ * would in Lambda.
+ */
+export async function streamResult(
+  res: ServerResponse,
+  handler: StreamingHandler,
+  event: LambdaEvent,
+  context: Context
+): Promise<void> {
+  const sink = new ResponseSink({
+    onMetadata: (metadata) => {
+      writeHead(res, metadata);
+      res.flushHeaders();
+    },
+    onChunk: (chunk) => res.write(chunk),
+  });
+  res.on("close", () => {
+    if (!sink.writableFinished) sink.destroy();
+  });
+  await handler(event, sink, context);
+  res.end();
+}
+
+function readBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+/**
+ * Creates an HTTP server that invokes the handler for every request.
+ * Streaming handlers have their output sent on as it is written.
+ * `getHandler` is called per request so a rebuilt handler takes effect
+ * without restarting the server.
+ */
+export function createDevServer(
+  getHandler: () => LambdaHandler | StreamingHandler | undefined,
+  options: DevServerOptions = {}
+): Server {
+  return createServer(async (req, res) => {
+    const started = Date.now();
+    try {
+      const handler = getHandler();
+      if (!handler) {
+        res.statusCode = 503;
+        res.end("Handler is still building\n");
+        return;
+      }
+      const event = toFunctionUrlEvent(req, await readBody(req));
+      const context = createContext(event.requestContext.requestId, options);
+      if (isStreamingHandler(handler)) {
+        await streamResult(res, handler, event, context);
+      } else {
+        writeResult(res, await handler(event, context));
+      }
+    } catch (err) {
+      // A real Lambda reports unhandled errors as a bare 502
+      console.error(err);
+      if (!res.headersSent) res.statusCode = 502;
+      res.end("Internal Server Error\n");
+    } finally {
+      console.log(
+        `${req.method} ${req.url} ${res.statusCode} ${Date.now() - started}ms`
+      );
+    }
+  });
+}
@@ -0,0 +1,81 @@
+/**
+ * Local development server: `yarn dev`.
+ *
+ * Rebuilds src/index.ts with esbuild whenever a file under src/ changes and
+ * serves it through a Function URL style event, so changes can be tried
+ * without deploying. `LAMBDA_STREAMING=true` serves `streamHandler`
+ * instead, as a Function URL in RESPONSE_STREAM invoke mode would.
+ */
+import { context, type Plugin } from "esbuild";
+import { resolve } from "path";
+import { pathToFileURL } from "url";
+import {
+  DEFAULT_TIMEOUT_MS,
+  createDevServer,
+  type LambdaHandler,
+} from "./dev-server";
+import type { StreamingHandler } from "./streaming";
+import { tailwind } from "./tailwind";
+
+const port = Number(process.env.PORT || 3000);
+const timeoutMs = process.env.LAMBDA_TIMEOUT
+  ? Number(process.env.LAMBDA_TIMEOUT) * 1000
+  : DEFAULT_TIMEOUT_MS;
+const streaming = process.env.LAMBDA_STREAMING === "true";
+const outfile = resolve(".dev/handler.mjs");
+
+let current: LambdaHandler | StreamingHandler | undefined;
+let version = 0;
+
+const reload: Plugin = {
+  name: "reload-handler",
+  setup(build) {
+    build.onEnd(async (result) => {
+      if (result.errors.length > 0) {
+        console.error("✗ Build failed; still serving the previous handler");
+        return;
+      }
+      try {
+        // A fresh query string bypasses Node's module cache
+        const url = `${pathToFileURL(outfile).href}?v=${++version}`;
+        const loaded = await import(url);
+        current = streaming ? loaded.streamHandler : loaded.handler;
+        console.log(version === 1 ? "✓ Handler built" : "↻ Handler reloaded");
+      } catch (err) {
+        console.error("✗ Failed to load the handler", err);
+      }
+    });
+  },
+};
+
+async function main() {
+  const ctx = await context({
+    entryPoints: ["src/index.ts"],
+    bundle: true,
+    platform: "node",
+    format: "esm",
+    target: "node20",
+    outfile,
+    sourcemap: "inline",
+    logLevel: "warning",
+    loader: { ".html": "text" },
+    plugins: [tailwind(), reload],
+  });
+  await ctx.watch();
+
+  const server = createDevServer(() => current, { timeoutMs });
+  server.listen(port, () => {
+    console.log(`▶ Listening on http://localhost:${port}`);
+  });
+
+  process.on("SIGINT", async () => {
+    server.close();
+    await ctx.dispose();
+    process.exit(0);
+  });
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,262 @@
+import { negotiate } from "./accept";
+import type { HttpRequest } from "./event";
+import { resp, type HttpResponse } from "./response";
+import { errorPage, renderPage } from "./views";
+
+export const STATUS_TITLES: Record<number, string> = {
+  400: "Bad Request",
+  401: "Unauthorized",
+  403: "Forbidden",
+  404: "Not Found",
+  405: "Method Not Allowed",
+  406: "Not Acceptable",
+  409: "Conflict",
+  413: "Payload Too Large",
+  415: "Unsupported Media Type",
+  429: "Too Many Requests",
+  500: "Internal Server Error",
+  503: "Service Unavailable",
+  504: "Gateway Timeout",
+};
+
+export interface HttpErrorOptions {
+  /** Human-readable explanation specific to this occurrence */
+  detail?: string;
+  /** URI identifying the problem type; defaults to about:blank */
+  type?: string;
+  /** Extra response headers, e.g. `allow` or `retry-after` */
+  headers?: Record<string, string>;
+  /** Additional members included in the problem document */
+  extensions?: Record<string, unknown>;
+  cause?: unknown;
+}
+
+type ErrorInit = Omit<HttpErrorOptions, "detail">;
+
+/**
+ * An error that maps to an HTTP status. Throw it from anywhere in a route
+ * and the top-level handler turns it into a problem+json response.
+ */
+export class HttpError extends Error {
+  readonly type: string;
+  readonly title: string;
+  readonly detail?: string;
+  readonly headers: Record<string, string>;
+  readonly extensions: Record<string, unknown>;
+  readonly cause?: unknown;
+
+  constructor(
+    readonly status: number,
+    options: HttpErrorOptions = {}
+  ) {
+    const title = STATUS_TITLES[status] || "Error";
+    super(options.detail || title);
+    this.name = "HttpError";
+    this.cause = options.cause;
+    this.type = options.type || "about:blank";
+    this.title = title;
+    this.detail = options.detail;
+    this.headers = options.headers || {};
+    this.extensions = options.extensions || {};
+  }
+}
+
+export class BadRequestError extends HttpError {
+  constructor(detail?: string, options: ErrorInit = {}) {
+    super(400, { ...options, detail });
+  }
+}
+
+export class UnauthorizedError extends HttpError {
+  constructor(detail?: string, options: ErrorInit = {}) {
+    super(401, { ...options, detail });
+  }
+}
+
+export class ForbiddenError extends HttpError {
+  constructor(detail?: string, options: ErrorInit = {}) {
+    super(403, { ...options, detail });
+  }
+}
+
+export class NotFoundError extends HttpError {
+  constructor(detail?: string, options: ErrorInit = {}) {
+    super(404, { ...options, detail });
+  }
+}
+
+export class MethodNotAllowedError extends HttpError {
+  constructor(allow: string[], detail?: string) {
+    super(405, { detail, headers: { allow: allow.join(", ") } });
+  }
+}
+
+export class NotAcceptableError extends HttpError {
+  constructor(detail?: string, options: ErrorInit = {}) {
+    super(406, { ...options, detail });
+  }
+}
+
+export class ConflictError extends HttpError {
+  constructor(detail?: string, options: ErrorInit = {}) {
+    super(409, { ...options, detail });
+  }
+}
+
+export class PayloadTooLargeError extends HttpError {
+  constructor(detail?: string, options: ErrorInit = {}) {
+    super(413, { ...options, detail });
+  }
+}
+
+export class UnsupportedMediaTypeError extends HttpError {
+  constructor(detail?: string, options: ErrorInit = {}) {
+    super(415, { ...options, detail });
+  }
+}
+
+export class TooManyRequestsError extends HttpError {
+  constructor(
+    retryAfterSeconds: number,
+    detail?: string,
+    options: ErrorInit = {}
+  ) {
+    super(429, {
+      ...options,
+      detail,
+      headers: {
+        ...options.headers,
+        "retry-after": String(Math.ceil(retryAfterSeconds)),
+      },
+    });
+  }
+}
+
+export class InternalServerError extends HttpError {
+  constructor(detail?: string, options: ErrorInit = {}) {
+    super(500, { ...options, detail });
+  }
+}
+
+export class ServiceUnavailableError extends HttpError {
+  constructor(detail?: string, options: ErrorInit = {}) {
+    super(503, { ...options, detail });
+  }
+}
+
+export class GatewayTimeoutError extends HttpError {
+  constructor(detail?: string, options: ErrorInit = {}) {
+    super(504, { ...options, detail });
+  }
+}
+
+/**
+ * RFC 7807 problem details document.
+ */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance?: string;
+  requestId?: string;
+  stack?: string;
+  [extension: string]: unknown;
+}
+
+export interface ProblemOptions {
+  /** Request path, reported as the problem instance */
+  instance?: string;
+  requestId?: string;
+  /** Include stack traces and the messages of unexpected errors */
+  debug?: boolean;
+}
+
+/**
+ * Wraps anything that was thrown in an HttpError. Errors that are not
+ * already HttpErrors become a 500 whose message is only shown in debug.
+ */
+export function toHttpError(err: unknown, debug = false): HttpError {
+  if (err instanceof HttpError) return err;
+  const message = err instanceof Error ? err.message : String(err);
+  return new InternalServerError(debug ? message : undefined, { cause: err });
+}
+
+export function toProblem(
+  err: unknown,
+  options: ProblemOptions = {}
+): ProblemDetails {
+  const error = toHttpError(err, options.debug);
+  const problem: ProblemDetails = {
+    ...error.extensions,
+    type: error.type,
+    title: error.title,
+    status: error.status,
+  };
+  if (error.detail) problem.detail = error.detail;
+  if (options.instance) problem.instance = options.instance;
+  if (options.requestId) problem.requestId = options.requestId;
+
+  if (options.debug) {
+    const original = error.cause instanceof Error ? error.cause : error;
+    problem.stack = original.stack;
+  }
+  return problem;
+}
+
+function renderHtmlProblem(problem: ProblemDetails, nonce?: string): string {
+  return renderPage(errorPage, {
+    title: `${problem.status} ${problem.title}`,
+    nonce,
+    status: problem.status,
+    heading: problem.title,
+    detail: problem.detail,
+    requestId: problem.requestId,
+    stack: problem.stack,
+  });
+}
+
+/**
+ * Browsers rank `text/html` above everything else; API clients don't, so
+ * they fall back to problem+json.
+ */
+function wantsHtml(request: HttpRequest): boolean {
+  const accept = request.headers["accept"];
+  const available = [
+    "application/problem+json",
+    "application/json",
+    "text/html",
+  ];
+  return negotiate(accept, available) === "text/html";
+}
+
+/**
+ * Renders any thrown value as an error response: problem+json for API
+ * clients, or an HTML page for browsers.
+ */
+export function errorResponse(
+  err: unknown,
+  request: HttpRequest,
+  options: Pick<ProblemOptions, "debug"> = {}
+): HttpResponse {
+  const error = toHttpError(err, options.debug);
+  const problem = toProblem(error, {
+    ...options,
+    instance: request.path,
+    requestId: request.requestId,
+  });
+
+  const result = wantsHtml(request)
+    ? resp(
+        error.status,
+        renderHtmlProblem(problem, request.cspNonce),
+        "text/html; charset=utf-8"
+      )
+    : resp(
+        error.status,
+        JSON.stringify(problem),
+        "application/problem+json; charset=utf-8"
+      );
+  Object.assign(result.headers!, error.headers);
+  return result;
+}
@@ -0,0 +1,75 @@
+import type {
+  ALBEvent,
+  APIGatewayProxyEvent,
+  APIGatewayProxyEventV2,
+} from "aws-lambda";
+import type { JwtClaims } from "./jwt";
+import type { SecurityPolicy } from "./security";
+
+type DeepPartial<T> = T extends object
+  ? { [K in keyof T]?: DeepPartial<T[K]> }
+  : T;
+
+// Every field is optional because test events and some invokers send only
+// part of the payload.
+
+/** Function URL or HTTP API event (payload format 2.0) */
+export type FunctionUrlEvent = DeepPartial<APIGatewayProxyEventV2>;
+
+/** API Gateway REST API event (payload format 1.0) */
+export type RestApiEvent = DeepPartial<APIGatewayProxyEvent>;
+
+/** Application Load Balancer target event */
+export type AlbEvent = DeepPartial<ALBEvent>;
+
+export type LambdaEvent = FunctionUrlEvent | RestApiEvent | AlbEvent;
+
+export type EventSource = "function-url" | "http-api" | "rest-api" | "alb";
+
+/**
+ * The normalized request every part of the framework works with,
+ * whichever event source invoked the function.
+ */
+export interface HttpRequest {
+  source: EventSource;
+  method: string;
+  path: string;
+  rawQueryString: string;
+  /** Query parameters; repeated keys are comma-joined as in v2 events */
+  query: Record<string, string | undefined>;
+  /** Headers with lower-cased names; repeated headers are comma-joined */
+  headers: Record<string, string | undefined>;
+  cookies: string[];
+  body?: string;
+  isBase64Encoded: boolean;
+  requestId?: string;
+  sourceIp?: string;
+  userAgent?: string;
+  /** Pattern of the matched route, e.g. `/api/items/:id`; set by routing */
+  route?: string;
+  /** Verified token claims, set by `requireAuth` */
+  auth?: JwtClaims;
+  /** Name of the verified API key, set by `requireApiKey` */
+  apiKey?: string;
+  /** Nonce for inline scripts, set by `securityHeaders` */
+  cspNonce?: string;
+  /** The security headers policy in effect, set by `securityHeaders` */
+  securityPolicy?: SecurityPolicy;
+  /** The original Lambda event */
+  raw: LambdaEvent;
+}
+
+/**
+ * Looks up a header case-insensitively.
+ */
+export function getHeader(
+  headers: Record<string, string | undefined> | undefined,
+  name: string
+): string | undefined {
+  if (!headers) return undefined;
+  const lower = name.toLowerCase();
+  for (const key of Object.keys(headers)) {
+    if (key.toLowerCase() === lower) return headers[key];
+  }
+  return undefined;
+}
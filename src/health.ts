@@ -0,0 +1,98 @@
+import { logger, type Logger } from "./logger";
+
+/**
+ * A readiness check resolves when a dependency is usable and throws (or
+ * rejects) when it is not.
+ */
+export type HealthCheck = () => Promise<unknown> | unknown;
+
+export const DEFAULT_CHECK_TIMEOUT_MS = 2000;
+
+interface RegisteredCheck {
+  name: string;
+  check: HealthCheck;
+  timeoutMs: number;
+}
+
+/**
+ * What /readyz reports for one check. Failures are logged, not reported:
+ * the endpoint is public and their messages can name hosts or credentials.
+ */
+export interface CheckResult {
+  status: "ok" | "fail";
+  latencyMs: number;
+}
+
+export interface ReadinessReport {
+  status: "ok" | "fail";
+  checks: Record<string, CheckResult>;
+}
+
+const checks: RegisteredCheck[] = [];
+
+/**
+ * Registers a dependency check for /readyz. A check that does not settle
+ * within `timeoutMs` counts as failed.
+ */
+export function registerCheck(
+  name: string,
+  check: HealthCheck,
+  options: { timeoutMs?: number } = {}
+): void {
+  if (checks.some((registered) => registered.name === name)) {
+    throw new Error(`Health check "${name}" is already registered`);
+  }
+  checks.push({
+    name,
+    check,
+    timeoutMs: options.timeoutMs ?? DEFAULT_CHECK_TIMEOUT_MS,
+  });
+}
+
+/** Removes every registered check; for tests */
+export function clearChecks(): void {
+  checks.length = 0;
+}
+
+async function runCheck(
+  { name, check, timeoutMs }: RegisteredCheck,
+  log: Logger
+): Promise<CheckResult> {
+  const started = Date.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`Timed out after ${timeoutMs}ms`)),
+      timeoutMs
+    );
+  });
+
+  try {
+    await Promise.race([Promise.resolve().then(check), timeout]);
+    return { status: "ok", latencyMs: Date.now() - started };
+  } catch (err) {
+    const latencyMs = Date.now() - started;
+    log.warn("Readiness check failed", { check: name, latencyMs, error: err });
+    return { status: "fail", latencyMs };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Runs every registered check concurrently, logging failures to `log`.
+ */
+export async function checkReadiness(
+  log: Logger = logger
+): Promise<ReadinessReport> {
+  const registered = [...checks];
+  const results = await Promise.all(
+    registered.map((check) => runCheck(check, log))
+  );
+  const report: ReadinessReport = { status: "ok", checks: {} };
+  registered.forEach(({ name }, i) => {
+    report.checks[name] = results[i];
+    if (results[i].status === "fail") report.status = "fail";
+  });
+  return report;
+}
@@ -1,95 +1,520 @@
-import type { APIGatewayProxyStructuredResultV2 } from "aws-lambda";
-
-const html = /* html */ `<!doctype html>
-<html lang="en">
-<head>
-  <meta charset="utf-8"/>
-  <meta name="viewport" content="width=device-width, initial-scale=1"/>
-  <title>Lambda API Example</title>
-  <!-- Tailwind via CDN -->
-  <script src="https://cdn.tailwindcss.com"></script>
-</head>
-<body class="min-h-screen bg-gray-50 text-gray-900">
-  <main class="max-w-2xl mx-auto p-4">
-    <header class="mb-6 text-center">
-      <h1 class="text-2xl font-bold">Hello from AWS Lambda deployed by Dagger! 👋</h1>
-      <p class="text-gray-600 mt-2">This page is served by a Lambda Function URL.<br />Click the button to call the API.</p>
-    </header>
-
-    <section class="bg-white shadow rounded-2xl p-6 text-center">
-      <button id="btn" class="px-4 py-2 rounded-xl shadow hover:shadow-md border w-full sm:w-auto">
-        Call API
-      </button>
-
-      <pre id="out" class="text-left mt-4 p-4 bg-gray-100 rounded overflow-x-auto text-sm"></pre>
-    </section>
-
-    <footer class="mt-8 text-xs text-center text-gray-500">
-      Source code available at <a href="https://github.com/jasonmccallister/lambda-api-example" class="text-blue-500 hover:underline">GitHub</a>.
-    </footer>
-  </main>
-
-  <script>
-    const out = document.getElementById('out');
-    const btn = document.getElementById('btn');
-    btn.addEventListener('click', async () => {
-      out.textContent = 'Loading...';
-      try {
-        const res = await fetch('/api/info', { headers: { 'Accept': 'application/json' } });
-        if (!res.ok) throw new Error('HTTP ' + res.status);
-        const data = await res.json();
-        out.textContent = JSON.stringify(data, null, 2);
-      } catch (e) {
-        out.textContent = 'Error: ' + (e?.message || e);
-      }
+import type { Context } from "aws-lambda";
+import { toHttpRequest, toLambdaResult, type LambdaResult } from "./adapters";
+import { requireApiKey, requireAuth } from "./auth";
+import { parseBody, type RequestBody } from "./body";
+import { applyCachePolicy, conditional } from "./cache";
+import { buildInfo } from "./build-info";
+import { compress } from "./compression";
+import { config } from "./config";
+import { cors } from "./cors";
+import { runWithin, timeBudget } from "./deadline";
+import {
+  GatewayTimeoutError,
+  HttpError,
+  MethodNotAllowedError,
+  NotFoundError,
+  ServiceUnavailableError,
+  errorResponse,
+} from "./errors";
+import type { HttpRequest, LambdaEvent } from "./event";
+import { checkReadiness } from "./health";
+import { logger, type Logger } from "./logger";
+import { Metrics } from "./metrics";
+import { compose, type ErrorRenderer } from "./middleware";
+import { represent } from "./negotiate";
+import { docsGroups, openApiDocument, type OpenApiDocument } from "./openapi";
+import { rateLimit } from "./ratelimit";
+import { isResponse, resp, type HttpResponse } from "./response";
+import { Router, normalizePath, validateInput } from "./router";
+import { s } from "./schema";
+import { eventStream, wait } from "./sse";
+import { assetResponse, findAsset, findAssetByUrl } from "./static";
+import { NONCE, securityHeaders, type CspDirectives } from "./security";
+import {
+  bufferResponse,
+  streamifyResponse,
+  writeResponse,
+  type StreamingHandler,
+} from "./streaming";
+import { Trace, extractTraceContext, type Span } from "./tracing";
+import { docsPage, homePage, layoutStylesHash, renderPage } from "./views";
+
+// Scripts on HTML pages run only with the response's nonce. The pages are
+// not cacheable: a cached copy would hand every visitor the same nonce.
+const pageCsp: CspDirectives = {
+  "default-src": ["'self'"],
+  "script-src": [NONCE],
+  "style-src": [NONCE],
+  "img-src": ["'self'", "data:"],
+  "connect-src": ["'self'"],
+  "object-src": ["'none'"],
+  "base-uri": ["'none'"],
+  "form-action": ["'self'"],
+};
+const pageSecurity = securityHeaders({ contentSecurityPolicy: pageCsp });
+
+// The home page has no scripts and allows its styles by hash, so it is the
+// same for every visitor and caches can keep it
+const homeSecurity = securityHeaders({
+  contentSecurityPolicy: {
+    ...pageCsp,
+    "script-src": ["'none'"],
+    "style-src": [layoutStylesHash],
+  },
+});
+
+// Stands in for the deploy time: a new deploy always starts new containers
+const startedAt = new Date();
+
+const router = new Router()
+  .use(securityHeaders())
+  .use(cors(() => config.cors))
+  .get("/", {
+    docs: { hidden: true },
+    middleware: [homeSecurity],
+    // The page only changes between deploys, so let browsers revalidate
+    // with the ETag instead of downloading it again
+    cache: { type: "public", maxAge: 0, sMaxAge: 300, lastModified: startedAt },
+    handler: () =>
+      resp(
+        200,
+        renderPage(homePage, { title: "Lambda API Example" }),
+        "text/html; charset=utf-8"
+      ),
+  })
+  // Hashed URLs never change content, so browsers and CDNs keep them
+  .get("/static/*", {
+    cache: { type: "public", maxAge: 31536000, immutable: true },
+    handler: ({ path }) => {
+      const asset = findAssetByUrl(path);
+      if (!asset) throw new NotFoundError(`No asset at ${path}`);
+      return assetResponse(asset);
+    },
+  })
+  // Browsers and crawlers ask for these at fixed URLs
+  .get("/favicon.ico", {
+    docs: { hidden: true },
+    cache: { type: "public", maxAge: 86400 },
+    handler: () => assetResponse(findAsset("favicon.ico")!),
+  })
+  .get("/robots.txt", {
+    docs: { hidden: true },
+    cache: { type: "public", maxAge: 86400 },
+    handler: () => assetResponse(findAsset("robots.txt")!),
+  })
+  .get("/docs", {
+    docs: { hidden: true },
+    middleware: [pageSecurity],
+    handler: ({ request }) =>
+      resp(
+        200,
+        renderPage(docsPage, {
+          title: "API documentation",
+          nonce: request.cspNonce,
+          groups: docsGroups(apiDocument()),
+        }),
+        "text/html; charset=utf-8"
+      ),
+  })
+  .get("/api/openapi.json", {
+    docs: { hidden: true },
+    produces: ["application/json"],
+    cache: { type: "public", maxAge: 300 },
+    handler: () => apiDocument(),
+  })
+  // Liveness: the function can be invoked at all
+  .get("/healthz", {
+    docs: {
+      summary: "Liveness check",
+      tags: ["Health"],
+      response: s.object({ status: s.string() }),
+    },
+    handler: () => ({ status: "ok" }),
+  })
+  // Readiness: every registered dependency check passes
+  .get("/readyz", {
+    docs: {
+      summary: "Readiness check",
+      description: "Answers 503 while any dependency check fails.",
+      tags: ["Health"],
+    },
+    handler: async ({ request, log }) => {
+      const report = await checkReadiness(log);
+      return represent(
+        report,
+        request,
+        undefined,
+        report.status === "ok" ? 200 : 503
+      );
+    },
+  })
+  .get("/api/version", {
+    docs: { summary: "Build and deployment version", tags: ["Health"] },
+    handler: ({ lambda }) => ({
+      ...buildInfo,
+      functionVersion: lambda?.functionVersion,
+    }),
+  })
+  .get("/api/info", {
+    docs: {
+      summary: "Request details",
+      description: "Rate limited per API key, or per source IP without one.",
+      tags: ["Examples"],
+    },
+    // Internal callers identify themselves with a key and get their own
+    // bucket; everyone else is limited per source IP
+    middleware: [requireApiKey({ optional: true }), rateLimit()],
+    handler: ({ request, span }) => ({
+      message: "Hello from /api/info",
+      now: new Date().toISOString(),
+      requestId: request.requestId,
+      traceId: span.traceId,
+      ip: request.sourceIp,
+      userAgent: request.userAgent,
+    }),
+  })
+  .get("/api/hello/:name", {
+    docs: {
+      summary: "Greet someone",
+      tags: ["Examples"],
+      response: s.object({ message: s.string() }),
+    },
+    schema: {
+      params: s.object({ name: s.string({ minLength: 1, maxLength: 64 }) }),
+      query: s.object({
+        times: s.integer({ min: 1, max: 5 }).default(1),
+        shout: s.boolean().default(false),
+      }),
+    },
+    handler: ({ input, metrics }) => {
+      metrics.put("Greetings", input.query.times);
+      const greeting = `Hello, ${input.params.name}!`;
+      const message = Array(input.query.times)
+        .fill(input.query.shout ? greeting.toUpperCase() : greeting)
+        .join(" ");
+      return { message };
+    },
+  })
+  .get("/api/me", {
+    docs: { summary: "The verified token's claims", tags: ["Examples"] },
+    middleware: [requireAuth()],
+    handler: ({ request }) => ({
+      subject: request.auth!.sub,
+      claims: request.auth,
+    }),
+  })
+  .get("/api/events", {
+    docs: {
+      summary: "Stream status events",
+      description:
+        "Server-Sent Events: a status event every `interval` ms, then an " +
+        "`end` event after `limit` of them or just before the invocation " +
+        "times out. Events arrive as they are sent only under the streaming " +
+        "entry point; the buffered one sends them all at the end.",
+      tags: ["Examples"],
+    },
+    produces: ["text/event-stream"],
+    compress: false,
+    schema: {
+      query: s.object({
+        interval: s.integer({ min: 100, max: 10000 }).default(1000),
+        limit: s.integer({ min: 1, max: 1000 }).default(30),
+      }),
+    },
+    handler: ({ input, lambda }) =>
+      eventStream(async (send, signal) => {
+        const { interval, limit } = input.query;
+        for (let seq = 1; seq <= limit && !signal.aborted; seq++) {
+          await send({
+            event: "status",
+            id: String(seq),
+            retry: seq === 1 ? interval : undefined,
+            data: {
+              seq,
+              time: new Date().toISOString(),
+              remainingMs: lambda?.getRemainingTimeInMillis(),
+            },
+          });
+          if (seq < limit) await wait(interval, signal);
+        }
+        // Nobody is listening after a disconnect
+        if (signal.reason !== "disconnect") {
+          await send({
+            event: "end",
+            data: { reason: signal.aborted ? "deadline" : "complete" },
+          });
+        }
+      }),
+  })
+  .post("/api/echo", {
+    docs: { summary: "Echo the request body", tags: ["Examples"] },
+    handler: ({ body }) => body,
+  });
+
+let builtDocument: OpenApiDocument | undefined;
+
+/** Built on first use: the route table does not change once loaded */
+function apiDocument(): OpenApiDocument {
+  return (builtDocument ??= openApiDocument(router, {
+    title: "Lambda API Example",
+    version: buildInfo.version,
+  }));
+}
+
+async function dispatch(
+  request: HttpRequest,
+  log: Logger,
+  metrics: Metrics,
+  span: Span,
+  onError: ErrorRenderer,
+  lambda?: Context
+): Promise<HttpResponse> {
+  const { method, path } = request;
+  const match = router.match(method, path);
+
+  if (match.status === "method-not-allowed") {
+    throw new MethodNotAllowedError(match.allow);
+  }
+  if (match.status === "not-found") {
+    throw new NotFoundError(`No route matches ${path}`);
+  }
+  const { route, params } = match;
+  request.route = route.pattern;
+
+  // Better to turn the request away than to start what cannot finish
+  const budgetMs = timeBudget(lambda, route.timeoutMs);
+  if (budgetMs <= 0) {
+    throw new ServiceUnavailableError(
+      "Too little time was left in the invocation to handle the request",
+      { headers: { "retry-after": "1" } }
+    );
+  }
+
+  const run = async (signal: AbortSignal): Promise<HttpResponse> => {
+    // A body on other methods has no defined meaning, so it is ignored
+    // unless the route asks for one
+    const takesBody =
+      route.schema.body !== undefined ||
+      method === "POST" ||
+      method === "PUT" ||
+      method === "PATCH";
+    const body: RequestBody = takesBody ? parseBody(request) : { type: "none" };
+    const input = validateInput(route.schema, {
+      params,
+      query: request.query,
+      headers: request.headers,
+      body,
     });
-  </script>
-</body>
-</html>`;
-
-function resp(
-  statusCode: number,
-  body: string,
-  contentType: string
-): APIGatewayProxyStructuredResultV2 {
+
+    const output = await span.run("handler", (handlerSpan) =>
+      route.handler({
+        request,
+        method,
+        path: normalizePath(path),
+        params,
+        body,
+        input,
+        log,
+        metrics,
+        span: handlerSpan.setAttribute("http.route", route.pattern),
+        signal,
+        lambda,
+      })
+    );
+    let result = isResponse(output)
+      ? output
+      : represent(output, request, route.produces);
+
+    const cacheable = method === "GET" || method === "HEAD";
+    if (cacheable) {
+      result = applyCachePolicy(result, route.cache || { type: "no-store" });
+    }
+
+    // Streamed bodies do not exist yet, so they cannot be compressed or
+    // compared against a cached copy
+    if (result.stream) return result;
+
+    if (config.compression.enabled && route.compress !== false) {
+      result = compress(request, result, {
+        threshold: config.compression.threshold,
+        ...route.compress,
+      });
+    }
+
+    return cacheable ? conditional(request, result) : result;
+  };
+
+  return runWithin(
+    budgetMs,
+    (signal) =>
+      compose(route.middleware || [], () => run(signal), onError)(request),
+    () => {
+      log.warn("Route timed out", { route: route.pattern, budgetMs });
+      return new GatewayTimeoutError(
+        `The request did not finish within ${Math.floor(budgetMs)} ms`
+      );
+    }
+  );
+}
+
+let coldStart = true;
+
+function bodySize(result: HttpResponse): number {
+  return Buffer.byteLength(
+    result.body ?? "",
+    result.isBase64Encoded ? "base64" : "utf8"
+  );
+}
+
+/**
+ * Counts what a streamed response writes, since its size is not known
+ * until the producer is done.
+ */
+function countStreamed(
+  result: HttpResponse,
+  count: (bytes: number) => void
+): HttpResponse {
+  const produce = result.stream;
+  if (!produce) return result;
   return {
-    statusCode,
-    headers: {
-      "content-type": contentType,
-      "cache-control": "no-store",
-      // CORS (useful if you later call from another origin)
-      "access-control-allow-origin": "*",
-    },
-    body,
+    ...result,
+    stream: (writer) =>
+      produce({
+        signal: writer.signal,
+        write: (chunk) => {
+          count(Buffer.byteLength(chunk));
+          return writer.write(chunk);
+        },
+      }),
   };
 }
 
-export async function handler(
-  event: any
-): Promise<APIGatewayProxyStructuredResultV2> {
-  // Function URL uses HTTP v2 event with rawPath, method in requestContext.http.method
-  const rawPath: string = event.rawPath || "/";
-  const method: string = event.requestContext?.http?.method || "GET";
-
-  if (method === "GET" && (rawPath === "/" || rawPath === "")) {
-    return resp(200, html, "text/html; charset=utf-8");
-  }
+/**
+ * Runs a request through the router and hands the response to `send`,
+ * which delivers it buffered or streamed. Once `send` is done the request
+ * is logged as complete and its metrics and spans are flushed.
+ */
+async function invoke<T>(
+  event: LambdaEvent,
+  context: Context | undefined,
+  send: (
+    request: HttpRequest,
+    result: HttpResponse,
+    onError: (err: unknown) => void
+  ) => Promise<T>
+): Promise<T> {
+  const started = Date.now();
+  const isColdStart = coldStart;
+  coldStart = false;
 
-  if (method === "GET" && rawPath === "/api/info") {
-    const info = {
-      message: "Hello from /api/info",
-      now: new Date().toISOString(),
-      requestId: event.requestContext?.requestId,
-      ip: event.requestContext?.http?.sourceIp,
-      userAgent: event.requestContext?.http?.userAgent,
-    };
-    return resp(200, JSON.stringify(info), "application/json; charset=utf-8");
+  // Function URL, HTTP API, REST API and ALB events all become one shape
+  const request = toHttpRequest(event);
+  // Without one from the event source, the invocation's ID stands in
+  request.requestId ??= context?.awsRequestId;
+  const trace = new Trace(extractTraceContext(request.headers), "request");
+  const span = trace.root
+    .setAttribute("http.method", request.method)
+    .setAttribute("url.path", request.path);
+  const log = logger.child({
+    requestId: request.requestId,
+    awsRequestId: context?.awsRequestId,
+    traceId: trace.context.traceId,
+    method: request.method,
+    path: request.path,
+  });
+  const metrics = new Metrics({ Service: config.metrics.service });
+  metrics.setProperty("requestId", request.requestId);
+  metrics.setProperty("awsRequestId", context?.awsRequestId);
+  log.debug("Request received", {
+    source: request.source,
+    query: request.query,
+    headers: request.headers,
+  });
+
+  const onError: ErrorRenderer = (err, request) => {
+    if (!(err instanceof HttpError)) {
+      log.error("Unhandled error", { error: err });
+    }
+    return errorResponse(err, request, { debug: config.debug });
+  };
+  const pipeline = compose(
+    router.middleware,
+    (request) => dispatch(request, log, metrics, span, onError, context),
+    onError
+  );
+  let result = await pipeline(request);
+  // Lets clients quote the trace when reporting a problem
+  result = {
+    ...result,
+    headers: { ...result.headers, "x-trace-id": trace.context.traceId },
+  };
+
+  // HEAD is answered by the GET handler, minus the body
+  if (request.method === "HEAD") {
+    result = { ...result, body: "", stream: undefined };
   }
 
-  // Simple 404
-  return resp(
-    404,
-    JSON.stringify({ error: "Not Found", path: rawPath }),
-    "application/json; charset=utf-8"
+  let bytes = bodySize(result);
+  result = countStreamed(result, (written) => (bytes += written));
+
+  const output = await send(request, result, (err) => {
+    span.recordError(err);
+    log.error("Response stream failed", { error: err });
+  });
+
+  const status = result.statusCode ?? 200;
+  const latencyMs = Date.now() - started;
+  const dimensions = {
+    Route: request.route || "unmatched",
+    StatusClass: `${Math.floor(status / 100)}xx`,
+  };
+  metrics.put("Requests", 1, "Count", dimensions);
+  metrics.put("Latency", latencyMs, "Milliseconds", dimensions);
+  metrics.put("ResponseSize", bytes, "Bytes", dimensions);
+  if (isColdStart) metrics.put("ColdStart", 1);
+  metrics.flush();
+
+  span.name = `${request.method} ${dimensions.Route}`;
+  span.setAttribute("http.status_code", status);
+  if (request.route) span.setAttribute("http.route", request.route);
+  if (status >= 500) span.recordError(`HTTP ${status}`);
+  span.end();
+  trace.flush();
+
+  log.info("Request completed", {
+    status: result.statusCode,
+    latencyMs,
+    coldStart: isColdStart,
+    streamed: result.stream ? true : undefined,
+    functionVersion: context?.functionVersion,
+    memoryLimitInMB:
+      context?.memoryLimitInMB !== undefined
+        ? Number(context.memoryLimitInMB)
+        : undefined,
+    sourceIp: request.sourceIp,
+    userAgent: request.userAgent,
+  });
+  return output;
+}
+
+export async function handler(
+  event: LambdaEvent,
+  context?: Context
+): Promise<LambdaResult> {
+  return invoke(event, context, async (request, result, onError) =>
+    toLambdaResult(request, await bufferResponse(result, context, onError))
   );
 }
+
+/**
+ * The response streaming entry point, for a Function URL in RESPONSE_STREAM
+ * invoke mode. Responses are the same as from `handler`, except that
+ * streamed bodies reach the client as they are written.
+ */
+export const streamHandler: StreamingHandler = streamifyResponse(
+  async (event, responseStream, context) => {
+    await invoke(event, context, (_request, result, onError) =>
+      writeResponse(result, responseStream, context, onError)
+    );
+  }
+);
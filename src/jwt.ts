@@ -0,0 +1,236 @@
+import {
+  createHmac,
+  createPublicKey,
+  timingSafeEqual,
+  verify,
+  type JsonWebKey,
+  type KeyObject,
+} from "crypto";
+
+export type JwtAlgorithm = "HS256" | "RS256" | "ES256";
+
+/** A public key from a JWKS document (RFC 7517) */
+export interface Jwk extends JsonWebKey {
+  kty: string;
+  kid?: string;
+  alg?: string;
+  use?: string;
+}
+
+export interface Jwks {
+  keys: Jwk[];
+}
+
+/** Registered claims plus whatever else the issuer put in the token */
+export interface JwtClaims {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  /** Space-separated scopes (RFC 8693) */
+  scope?: string;
+  /** Scopes as an array, as some issuers send them */
+  scp?: string[];
+  [claim: string]: unknown;
+}
+
+export interface VerifyOptions {
+  /** Shared secret for HS256 tokens */
+  secret?: string;
+  /** Public keys for RS256 and ES256 tokens */
+  jwks?: Jwks;
+  /** Required `iss`, when set */
+  issuer?: string;
+  /** Accepted `aud` values; the token must name at least one, when set */
+  audience?: string[];
+  /** Leeway for `exp` and `nbf`, in seconds */
+  clockSkewSeconds?: number;
+  /** Current time in seconds since the epoch; defaults to now */
+  now?: number;
+}
+
+/**
+ * A token that is malformed, badly signed or not valid right now. The
+ * message is safe to show to the client.
+ */
+export class JwtError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JwtError";
+  }
+}
+
+interface JwtHeader {
+  alg?: string;
+  kid?: string;
+  typ?: string;
+}
+
+function decodeSegment<T>(segment: string, what: string): T {
+  try {
+    const value = JSON.parse(Buffer.from(segment, "base64url").toString());
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+      return value as T;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new JwtError(`Token ${what} is not a JSON object`);
+}
+
+/** The key types each algorithm may be verified with */
+type AsymmetricAlgorithm = Exclude<JwtAlgorithm, "HS256">;
+
+const KEY_TYPES: Record<AsymmetricAlgorithm, { kty: string; crv?: string }> = {
+  RS256: { kty: "RSA" },
+  ES256: { kty: "EC", crv: "P-256" },
+};
+
+const importedKeys = new WeakMap<Jwk, KeyObject>();
+
+function importKey(jwk: Jwk): KeyObject {
+  let key = importedKeys.get(jwk);
+  if (!key) {
+    key = createPublicKey({ key: jwk, format: "jwk" });
+    importedKeys.set(jwk, key);
+  }
+  return key;
+}
+
+/**
+ * Finds the JWKS key for a token. Only keys of the algorithm's type are
+ * candidates, so an RSA key can never be used to check an HMAC signature.
+ */
+function selectKey(
+  jwks: Jwks | undefined,
+  alg: AsymmetricAlgorithm,
+  kid: string | undefined
+): KeyObject {
+  const { kty, crv } = KEY_TYPES[alg];
+  const candidates = (jwks?.keys || []).filter(
+    (key) =>
+      key.kty === kty &&
+      (!crv || key.crv === crv) &&
+      (!key.alg || key.alg === alg) &&
+      (!key.use || key.use === "sig")
+  );
+  const matching = kid
+    ? candidates.filter((key) => key.kid === kid)
+    : candidates.length === 1
+      ? candidates
+      : [];
+  if (matching.length === 0) {
+    throw new JwtError(
+      kid ? `No ${alg} key with id "${kid}"` : `No ${alg} key for the token`
+    );
+  }
+  return importKey(matching[0]);
+}
+
+function verifySignature(
+  alg: string,
+  kid: string | undefined,
+  signingInput: string,
+  signature: Buffer,
+  options: VerifyOptions
+): boolean {
+  const data = Buffer.from(signingInput);
+  switch (alg) {
+    case "HS256": {
+      if (!options.secret) throw new JwtError("HS256 tokens are not accepted");
+      const expected = createHmac("sha256", options.secret)
+        .update(data)
+        .digest();
+      return (
+        expected.length === signature.length &&
+        timingSafeEqual(expected, signature)
+      );
+    }
+    case "RS256":
+      return verify(
+        "sha256",
+        data,
+        selectKey(options.jwks, alg, kid),
+        signature
+      );
+    case "ES256":
+      // JWS carries the raw r||s pair rather than a DER sequence
+      return verify(
+        "sha256",
+        data,
+        { key: selectKey(options.jwks, alg, kid), dsaEncoding: "ieee-p1363" },
+        signature
+      );
+    default:
+      throw new JwtError(`Unsupported algorithm "${alg}"`);
+  }
+}
+
+function checkClaims(claims: JwtClaims, options: VerifyOptions): void {
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  const skew = options.clockSkewSeconds ?? 0;
+
+  if (claims.exp !== undefined) {
+    if (typeof claims.exp !== "number") throw new JwtError("Invalid exp");
+    if (now - skew >= claims.exp) throw new JwtError("Token has expired");
+  }
+  if (claims.nbf !== undefined) {
+    if (typeof claims.nbf !== "number") throw new JwtError("Invalid nbf");
+    if (now + skew < claims.nbf) throw new JwtError("Token is not yet valid");
+  }
+  if (options.issuer && claims.iss !== options.issuer) {
+    throw new JwtError("Unexpected token issuer");
+  }
+  if (options.audience && options.audience.length > 0) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.some((aud) => options.audience!.includes(String(aud)))) {
+      throw new JwtError("Token is not intended for this audience");
+    }
+  }
+}
+
+/**
+ * Verifies a compact JWS and its time, issuer and audience claims, and
+ * returns the claims. Throws JwtError for any token that should be refused.
+ */
+export function verifyJwt(token: string, options: VerifyOptions): JwtClaims {
+  const parts = token.split(".");
+  if (parts.length !== 3 || parts.some((part) => !part)) {
+    throw new JwtError("Token is not a compact JWS");
+  }
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+
+  const header = decodeSegment<JwtHeader>(encodedHeader, "header");
+  const claims = decodeSegment<JwtClaims>(encodedPayload, "payload");
+  const signature = Buffer.from(encodedSignature, "base64url");
+
+  let valid: boolean;
+  try {
+    valid = verifySignature(
+      String(header.alg),
+      header.kid,
+      `${encodedHeader}.${encodedPayload}`,
+      signature,
+      options
+    );
+  } catch (err) {
+    if (err instanceof JwtError) throw err;
+    // crypto throws for signatures of the wrong shape
+    valid = false;
+  }
+  if (!valid) throw new JwtError("Invalid token signature");
+  checkClaims(claims, options);
+  return claims;
+}
+
+/**
+ * The scopes granted by a token, from either `scope` or `scp`.
+ */
+export function scopesOf(claims: JwtClaims): string[] {
+  if (typeof claims.scope === "string") {
+    return claims.scope.split(" ").filter(Boolean);
+  }
+  return Array.isArray(claims.scp) ? claims.scp.map(String) : [];
+}
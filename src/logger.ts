@@ -0,0 +1,107 @@
+import { config } from "./config";
+
+export type LogLevel = "debug" | "info" | "warn" | "error" | "silent";
+
+export type LogFields = Record<string, unknown>;
+
+const SEVERITY: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: Infinity,
+};
+
+export const REDACTED = "[REDACTED]";
+
+/**
+ * Replaces the values of sensitive headers, matching names
+ * case-insensitively.
+ */
+export function redactHeaders(
+  headers: Record<string, unknown>,
+  sensitive: string[] = config.log.redactHeaders
+): Record<string, unknown> {
+  const names = new Set(sensitive.map((name) => name.toLowerCase()));
+  const redacted: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    redacted[name] = names.has(name.toLowerCase()) ? REDACTED : value;
+  }
+  return redacted;
+}
+
+// Errors have no enumerable properties, so JSON.stringify would drop them
+function serialize(key: string, value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  if (key === "headers" && value && typeof value === "object") {
+    return redactHeaders(value as Record<string, unknown>);
+  }
+  return value;
+}
+
+export interface LoggerOptions {
+  /** Minimum level to emit; defaults to `config.log.level` */
+  level?: LogLevel;
+  /** Receives each JSON line; defaults to stdout */
+  write?: (line: string) => void;
+}
+
+/**
+ * Writes one JSON object per line. Lines go straight to stdout rather than
+ * console.log, which the Lambda runtime prefixes with plain-text fields.
+ */
+export class Logger {
+  constructor(
+    private readonly fields: LogFields = {},
+    private readonly options: LoggerOptions = {}
+  ) {}
+
+  /** A logger that adds `fields` to every line */
+  child(fields: LogFields): Logger {
+    return new Logger({ ...this.fields, ...fields }, this.options);
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    const threshold = this.options.level ?? config.log.level;
+    return SEVERITY[level] >= SEVERITY[threshold];
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log("debug", message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log("info", message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log("warn", message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log("error", message, fields);
+  }
+
+  private log(level: LogLevel, message: string, fields?: LogFields): void {
+    if (!this.isEnabled(level)) return;
+    const line = JSON.stringify(
+      {
+        level,
+        time: new Date().toISOString(),
+        message,
+        ...this.fields,
+        ...fields,
+      },
+      serialize
+    );
+    if (this.options.write) {
+      this.options.write(line);
+    } else {
+      process.stdout.write(line + "\n");
+    }
+  }
+}
+
+export const logger = new Logger();
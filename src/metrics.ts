@@ -0,0 +1,189 @@
+import { config } from "./config";
+
+/**
+ * Metrics in CloudWatch Embedded Metric Format: JSON log lines that
+ * CloudWatch turns into metrics, with no API calls from the function.
+ */
+
+export type MetricUnit =
+  | "Count"
+  | "Milliseconds"
+  | "Seconds"
+  | "Bytes"
+  | "Kilobytes"
+  | "Percent"
+  | "None";
+
+export type Dimensions = Record<string, string>;
+
+/** One EMF log line */
+export interface EmfDocument {
+  _aws: {
+    Timestamp: number;
+    CloudWatchMetrics: {
+      Namespace: string;
+      Dimensions: string[][];
+      Metrics: { Name: string; Unit: MetricUnit }[];
+    }[];
+  };
+  [field: string]: unknown;
+}
+
+export type MetricsSink = (document: EmfDocument) => void;
+
+// Lambda ships stdout to CloudWatch Logs, where EMF lines are picked up
+const stdoutSink: MetricsSink = (document) => {
+  process.stdout.write(JSON.stringify(document) + "\n");
+};
+
+let sink = stdoutSink;
+
+/** Sends metrics somewhere other than stdout, or back there without one */
+export function useMetricsSink(next: MetricsSink = stdoutSink): void {
+  sink = next;
+}
+
+// CloudWatch rejects documents with more values than this for one metric
+const MAX_VALUES = 100;
+
+interface Entry {
+  name: string;
+  unit: MetricUnit;
+  dimensions: Dimensions;
+  values: number[];
+}
+
+function dimensionKey(dimensions: Dimensions): string {
+  return JSON.stringify(Object.entries(dimensions).sort());
+}
+
+/**
+ * Metrics recorded during one invocation. Nothing is written until
+ * `flush`, which emits one document per set of dimensions, with repeated
+ * values of a metric batched into an array.
+ */
+export class Metrics {
+  private entries = new Map<string, Entry>();
+  private properties: Record<string, unknown> = {};
+
+  constructor(
+    /** Added to every metric, e.g. the service name */
+    private readonly dimensions: Dimensions = {},
+    private readonly namespace: string = config.metrics.namespace
+  ) {}
+
+  /**
+   * Records a value. `dimensions` are added to the defaults for this
+   * metric only; values with different dimensions are separate series.
+   */
+  put(
+    name: string,
+    value: number,
+    unit: MetricUnit = "Count",
+    dimensions: Dimensions = {}
+  ): void {
+    const all = { ...this.dimensions, ...dimensions };
+    const key = `${dimensionKey(all)}:${name}`;
+    const entry = this.entries.get(key);
+    if (entry) {
+      entry.values.push(value);
+    } else {
+      this.entries.set(key, { name, unit, dimensions: all, values: [value] });
+    }
+  }
+
+  /**
+   * Adds a field to every document that is not a dimension, e.g. a
+   * request ID to find the invocation's logs from a metric.
+   */
+  setProperty(name: string, value: unknown): void {
+    this.properties[name] = value;
+  }
+
+  /** Writes everything recorded so far and starts over */
+  flush(timestamp = Date.now()): void {
+    const groups = new Map<string, Entry[]>();
+    for (const entry of this.entries.values()) {
+      const key = dimensionKey(entry.dimensions);
+      groups.set(key, [...(groups.get(key) || []), entry]);
+    }
+    this.entries = new Map();
+    if (!config.metrics.enabled) return;
+
+    for (const entries of groups.values()) {
+      // Each document takes up to MAX_VALUES values of every metric
+      for (let offset = 0; ; offset += MAX_VALUES) {
+        const batch = entries.filter((entry) => entry.values.length > offset);
+        if (batch.length === 0) break;
+        const { dimensions } = batch[0];
+        const document: EmfDocument = {
+          _aws: {
+            Timestamp: timestamp,
+            CloudWatchMetrics: [
+              {
+                Namespace: this.namespace,
+                Dimensions: [Object.keys(dimensions)],
+                Metrics: batch.map(({ name, unit }) => ({
+                  Name: name,
+                  Unit: unit,
+                })),
+              },
+            ],
+          },
+          ...this.properties,
+          ...dimensions,
+        };
+        for (const { name, values } of batch) {
+          const slice = values.slice(offset, offset + MAX_VALUES);
+          document[name] = slice.length === 1 ? slice[0] : slice;
+        }
+        sink(document);
+      }
+    }
+  }
+}
+
+export interface RecordedValue {
+  value: number;
+  unit: MetricUnit;
+  dimensions: Dimensions;
+}
+
+/**
+ * Collects documents instead of writing them, for tests:
+ *
+ *     const metrics = new TestMetricsSink();
+ *     useMetricsSink(metrics.write);
+ *     // ...
+ *     expect(metrics.values("Requests")).toEqual([...]);
+ */
+export class TestMetricsSink {
+  readonly documents: EmfDocument[] = [];
+
+  readonly write: MetricsSink = (document) => {
+    this.documents.push(document);
+  };
+
+  /** Every value recorded for a metric, with its unit and dimensions */
+  values(name: string): RecordedValue[] {
+    return this.documents.flatMap((document) => {
+      const [directive] = document._aws.CloudWatchMetrics;
+      const metric = directive.Metrics.find((m) => m.Name === name);
+      if (!metric) return [];
+      const dimensions: Dimensions = {};
+      for (const dimension of directive.Dimensions[0]) {
+        dimensions[dimension] = String(document[dimension]);
+      }
+      const raw = document[name] as number | number[];
+      return (Array.isArray(raw) ? raw : [raw]).map((value) => ({
+        value,
+        unit: metric.Unit,
+        dimensions,
+      }));
+    });
+  }
+
+  clear(): void {
+    this.documents.length = 0;
+  }
+}
@@ -0,0 +1,67 @@
+import type { HttpRequest } from "./event";
+import type { HttpResponse } from "./response";
+
+/** Runs the rest of the pipeline; always resolves to a response */
+export type Next = () => Promise<HttpResponse>;
+
+/**
+ * Credentials a middleware asks for, so the OpenAPI document can list the
+ * route's auth requirements.
+ */
+export interface AuthRequirement {
+  scheme: "bearer" | "apiKey";
+  /** Scopes the credentials must grant */
+  scopes: string[];
+  /** Anonymous requests are let through too */
+  optional: boolean;
+}
+
+/**
+ * Wraps request handling. A middleware can answer on its own without
+ * calling `next`, or call it and change the response on the way out.
+ */
+export type Middleware = ((
+  request: HttpRequest,
+  next: Next
+) => Promise<HttpResponse>) & { auth?: AuthRequirement };
+
+export type RequestHandler = (request: HttpRequest) => Promise<HttpResponse>;
+
+/** Turns an error thrown inside the pipeline into a response */
+export type ErrorRenderer = (
+  err: unknown,
+  request: HttpRequest
+) => HttpResponse;
+
+/**
+ * Composes middleware around a final handler, outermost first.
+ *
+ * Errors thrown further in are rendered with `onError` at each boundary,
+ * so `next()` never rejects and outer middleware sees error responses the
+ * same way as any other.
+ */
+export function compose(
+  middleware: Middleware[],
+  final: RequestHandler,
+  onError: ErrorRenderer
+): RequestHandler {
+  return (request) => {
+    const run = async (index: number): Promise<HttpResponse> => {
+      try {
+        if (index === middleware.length) return await final(request);
+
+        let called = false;
+        return await middleware[index](request, () => {
+          if (called) {
+            return Promise.reject(new Error("next() called more than once"));
+          }
+          called = true;
+          return run(index + 1);
+        });
+      } catch (err) {
+        return onError(err, request);
+      }
+    };
+    return run(0);
+  };
+}
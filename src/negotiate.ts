@@ -0,0 +1,150 @@
+import { negotiate } from "./accept";
+import { NotAcceptableError } from "./errors";
+import type { HttpRequest } from "./event";
+import { appendVary, resp, type HttpResponse } from "./response";
+import { dataPage, renderPage } from "./views";
+
+function isPlainKey(key: string): boolean {
+  return /^[A-Za-z_][\w-]*$/.test(key);
+}
+
+/**
+ * Flattens nested data into dotted key/value pairs, skipping undefined.
+ */
+function flatten(data: unknown, prefix = ""): [string, string][] {
+  if (data === undefined) return [];
+  if (data === null || typeof data !== "object") {
+    return [[prefix, String(data)]];
+  }
+
+  const entries = Array.isArray(data)
+    ? data.map((value, i) => [String(i), value] as const)
+    : Object.entries(data);
+  if (entries.length === 0) {
+    return [[prefix, Array.isArray(data) ? "[]" : "{}"]];
+  }
+  return entries.flatMap(([key, value]) =>
+    flatten(value, prefix ? `${prefix}.${key}` : key)
+  );
+}
+
+const YAML_RESERVED = /^(true|false|yes|no|on|off|null|~)$/i;
+
+function yamlScalar(value: unknown): string {
+  if (value === null) return "null";
+  if (typeof value === "number" || typeof value === "boolean") {
+    return String(value);
+  }
+  const text = String(value);
+  const plain =
+    /^[A-Za-z_][\w .\/()-]*$/.test(text) &&
+    !/\s$/.test(text) &&
+    !YAML_RESERVED.test(text);
+  return plain ? text : JSON.stringify(text);
+}
+
+/**
+ * Serializes JSON-compatible data as block-style YAML.
+ */
+export function toYaml(data: unknown, indent = ""): string {
+  if (data === null || typeof data !== "object") return yamlScalar(data);
+
+  const lines: string[] = [];
+  if (Array.isArray(data)) {
+    if (data.length === 0) return "[]";
+    for (const item of data) {
+      const nested = typeof item === "object" && item !== null;
+      const rendered = toYaml(item, indent + "  ");
+      lines.push(
+        nested && rendered !== "[]" && rendered !== "{}"
+          ? `${indent}-\n${rendered}`
+          : `${indent}- ${rendered}`
+      );
+    }
+    return lines.join("\n");
+  }
+
+  const entries = Object.entries(data).filter(([, v]) => v !== undefined);
+  if (entries.length === 0) return "{}";
+  for (const [key, value] of entries) {
+    const name = isPlainKey(key) ? key : JSON.stringify(key);
+    const rendered = toYaml(value, indent + "  ");
+    const block =
+      typeof value === "object" &&
+      value !== null &&
+      rendered !== "[]" &&
+      rendered !== "{}";
+    lines.push(
+      block ? `${indent}${name}:\n${rendered}` : `${indent}${name}: ${rendered}`
+    );
+  }
+  return lines.join("\n");
+}
+
+function toText(data: unknown): string {
+  if (data === null || typeof data !== "object") return String(data);
+  return flatten(data)
+    .map(([key, value]) => `${key}: ${value}`)
+    .join("\n");
+}
+
+function toHtml(data: unknown, request: HttpRequest): string {
+  return renderPage(dataPage, {
+    title: "Lambda API Example",
+    nonce: request.cspNonce,
+    rows: flatten(data).map(([key, value]) => ({ key, value })),
+  });
+}
+
+/**
+ * Serializers for the representations a route can produce, keyed by media
+ * type. The first entry is the default when the client accepts anything.
+ */
+export const serializers: Record<
+  string,
+  {
+    contentType: string;
+    serialize: (data: unknown, request: HttpRequest) => string;
+  }
+> = {
+  "application/json": {
+    contentType: "application/json; charset=utf-8",
+    serialize: (data) => JSON.stringify(data),
+  },
+  "application/yaml": {
+    contentType: "application/yaml; charset=utf-8",
+    serialize: (data) => toYaml(data) + "\n",
+  },
+  "text/plain": {
+    contentType: "text/plain; charset=utf-8",
+    serialize: toText,
+  },
+  "text/html": {
+    contentType: "text/html; charset=utf-8",
+    serialize: toHtml,
+  },
+};
+
+/**
+ * Serializes route data in the representation the client prefers, or
+ * throws a 406 when none of `produces` is acceptable.
+ */
+export function represent(
+  data: unknown,
+  request: HttpRequest,
+  produces: string[] = Object.keys(serializers),
+  statusCode = 200
+): HttpResponse {
+  const mediaType = negotiate(request.headers["accept"], produces);
+  if (!mediaType) {
+    throw new NotAcceptableError(
+      `Available representations: ${produces.join(", ")}`,
+      { extensions: { available: produces } }
+    );
+  }
+
+  const { contentType, serialize } = serializers[mediaType];
+  const result = resp(statusCode, serialize(data, request), contentType);
+  appendVary(result.headers!, "Accept");
+  return result;
+}
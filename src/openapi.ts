@@ -0,0 +1,314 @@
+import type { AuthRequirement, Middleware } from "./middleware";
+import { serializers } from "./negotiate";
+import type { Route, Router } from "./router";
+import { toJsonSchema, type JsonSchema, type Schema } from "./schema";
+
+/**
+ * OpenAPI 3.1 document generation. Everything comes from the route table:
+ * paths and methods from the patterns, parameters and bodies from route
+ * schemas, auth from the middleware, and the rest from `docs`.
+ */
+
+export interface OpenApiInfo {
+  title: string;
+  version: string;
+  description?: string;
+}
+
+export interface Parameter {
+  name: string;
+  in: "path" | "query" | "header";
+  required: boolean;
+  schema: JsonSchema;
+}
+
+export interface Operation {
+  operationId: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  parameters?: Parameter[];
+  requestBody?: {
+    required: boolean;
+    content: Record<string, { schema: JsonSchema }>;
+  };
+  responses: Record<string, unknown>;
+  security?: Record<string, string[]>[];
+}
+
+export interface OpenApiDocument {
+  openapi: "3.1.0";
+  info: OpenApiInfo;
+  paths: Record<string, Record<string, Operation>>;
+  components: Record<string, Record<string, unknown>>;
+}
+
+const SECURITY_SCHEMES = {
+  bearerAuth: { type: "http", scheme: "bearer", bearerFormat: "JWT" },
+  apiKey: { type: "apiKey", in: "header", name: "x-api-key" },
+};
+
+const SCHEME_NAMES: Record<AuthRequirement["scheme"], string> = {
+  bearer: "bearerAuth",
+  apiKey: "apiKey",
+};
+
+const PROBLEM_SCHEMA = {
+  type: "object",
+  properties: {
+    type: { type: "string" },
+    title: { type: "string" },
+    status: { type: "integer" },
+    detail: { type: "string" },
+    instance: { type: "string" },
+    requestId: { type: "string" },
+  },
+  required: ["type", "title", "status"],
+};
+
+function problem(description: string) {
+  return {
+    description,
+    content: {
+      "application/problem+json": {
+        schema: { $ref: "#/components/schemas/Problem" },
+      },
+    },
+  };
+}
+
+/** Converts `/api/items/:id` to the OpenAPI form, `/api/items/{id}` */
+export function openApiPath(pattern: string): string {
+  return pattern.replace(/:(\w+)/g, "{$1}");
+}
+
+function operationId(method: string, pattern: string): string {
+  const words = pattern.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  return (
+    method.toLowerCase() +
+    words.map((word) => word[0].toUpperCase() + word.slice(1)).join("")
+  );
+}
+
+function shapeOf(schema: Schema<unknown> | undefined) {
+  return schema?.meta.shape || {};
+}
+
+function parameters(route: Route): Parameter[] {
+  const { schema } = route;
+  const pathParams = shapeOf(schema.params);
+  const names = [...route.pattern.matchAll(/:(\w+)/g)].map((match) => match[1]);
+
+  return [
+    ...names.map((name): Parameter => ({
+      name,
+      in: "path",
+      required: true,
+      schema: pathParams[name]
+        ? toJsonSchema(pathParams[name])
+        : { type: "string" },
+    })),
+    ...(["query", "header"] as const).flatMap((location) =>
+      Object.entries(
+        shapeOf(location === "query" ? schema.query : schema.headers)
+      ).map(([name, field]): Parameter => ({
+        name,
+        in: location,
+        required: !field.meta.optional,
+        schema: toJsonSchema(field),
+      }))
+    ),
+  ];
+}
+
+function requestBody(route: Route): Operation["requestBody"] {
+  const { body } = route.schema;
+  if (body) {
+    return {
+      required: !body.meta.optional,
+      content: { "application/json": { schema: toJsonSchema(body) } },
+    };
+  }
+  // Without a schema the route takes whatever it is sent
+  if (["POST", "PUT", "PATCH"].includes(route.method)) {
+    return { required: false, content: { "application/json": { schema: {} } } };
+  }
+  return undefined;
+}
+
+function responses(route: Route, auth: AuthRequirement[]) {
+  const schema = route.docs?.response ? toJsonSchema(route.docs.response) : {};
+  const content = Object.fromEntries(
+    (route.produces || Object.keys(serializers)).map((type) => [
+      type,
+      // Text and HTML are renderings of the same data, not its shape
+      type.endsWith("json") || type.endsWith("yaml") ? { schema } : {},
+    ])
+  );
+
+  const out: Record<string, unknown> = {
+    "200": { description: "Success", content },
+  };
+  if (Object.keys(route.schema).length > 0) {
+    out["400"] = problem("The request input is invalid");
+  }
+  if (auth.length > 0) {
+    out["401"] = problem("Credentials are missing or invalid");
+  }
+  if (auth.some((requirement) => requirement.scopes.length > 0)) {
+    out["403"] = problem("The token lacks a required scope");
+  }
+  out.default = problem("Error");
+  return out;
+}
+
+/**
+ * Auth middleware all apply, so their schemes make one requirement.
+ * Optional credentials make a second, stronger alternative.
+ */
+function security(auth: AuthRequirement[]): Operation["security"] {
+  if (auth.length === 0) return undefined;
+  const merge = (list: AuthRequirement[]) =>
+    Object.fromEntries(
+      list.map(({ scheme, scopes }) => [SCHEME_NAMES[scheme], scopes])
+    );
+  const required = merge(auth.filter((requirement) => !requirement.optional));
+  return auth.some((requirement) => requirement.optional)
+    ? [merge(auth), required]
+    : [required];
+}
+
+function authOf(middleware: Middleware[]): AuthRequirement[] {
+  return middleware.flatMap((layer) => (layer.auth ? [layer.auth] : []));
+}
+
+/**
+ * Builds the OpenAPI document for a router. Routes marked `docs.hidden`
+ * are left out, and so are wildcard routes, which OpenAPI paths cannot
+ * express. HEAD is implied by GET and not listed.
+ */
+export function openApiDocument(
+  router: Router,
+  info: OpenApiInfo
+): OpenApiDocument {
+  const paths: OpenApiDocument["paths"] = {};
+
+  for (const route of router.routes) {
+    if (route.docs?.hidden || route.pattern.endsWith("*")) continue;
+
+    const auth = authOf([...router.middleware, ...(route.middleware || [])]);
+    const params = parameters(route);
+    const operation: Operation = {
+      operationId: operationId(route.method, route.pattern),
+      summary: route.docs?.summary,
+      description: route.docs?.description,
+      tags: route.docs?.tags,
+      parameters: params.length > 0 ? params : undefined,
+      requestBody: requestBody(route),
+      responses: responses(route, auth),
+      security: security(auth),
+    };
+
+    const path = openApiPath(route.pattern);
+    paths[path] = { ...paths[path], [route.method.toLowerCase()]: operation };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info,
+    paths,
+    components: {
+      schemas: { Problem: PROBLEM_SCHEMA },
+      securitySchemes: SECURITY_SCHEMES,
+    },
+  };
+}
+
+/** A form field on the /docs page */
+export interface DocsField {
+  name: string;
+  in: "path" | "query" | "header";
+  type: string;
+  required: boolean;
+  value: string;
+  placeholder: string;
+}
+
+export interface DocsOperation {
+  id: string;
+  method: string;
+  path: string;
+  summary: string;
+  description: string;
+  fields: DocsField[];
+  body: boolean;
+}
+
+export interface DocsGroup {
+  tag: string;
+  operations: DocsOperation[];
+}
+
+const AUTH_FIELDS: Record<string, DocsField> = {
+  bearerAuth: {
+    name: "authorization",
+    in: "header",
+    type: "string",
+    required: false,
+    value: "",
+    placeholder: "Bearer <token>",
+  },
+  apiKey: {
+    name: "x-api-key",
+    in: "header",
+    type: "string",
+    required: false,
+    value: "",
+    placeholder: "API key",
+  },
+};
+
+/**
+ * Flattens the document into what the /docs page renders: operations
+ * grouped by their first tag, each with a form field per parameter and
+ * per credential it accepts.
+ */
+export function docsGroups(document: OpenApiDocument): DocsGroup[] {
+  const groups = new Map<string, DocsOperation[]>();
+
+  for (const [path, operations] of Object.entries(document.paths)) {
+    for (const [method, operation] of Object.entries(operations)) {
+      const schemes = (operation.security || []).flatMap(Object.keys);
+      const fields: DocsField[] = [
+        ...(operation.parameters || []).map((parameter) => ({
+          name: parameter.name,
+          in: parameter.in,
+          type: String(parameter.schema.type || "string"),
+          required: parameter.required,
+          value:
+            parameter.schema.default === undefined
+              ? ""
+              : String(parameter.schema.default),
+          placeholder: "",
+        })),
+        ...schemes
+          .filter((scheme, i) => schemes.indexOf(scheme) === i)
+          .map((scheme) => AUTH_FIELDS[scheme]),
+      ];
+
+      const tag = operation.tags?.[0] || "Other";
+      if (!groups.has(tag)) groups.set(tag, []);
+      groups.get(tag)!.push({
+        id: operation.operationId,
+        method: method.toUpperCase(),
+        path,
+        summary: operation.summary || "",
+        description: operation.description || "",
+        fields,
+        body: !!operation.requestBody,
+      });
+    }
+  }
+
+  return [...groups].map(([tag, operations]) => ({ tag, operations }));
+}
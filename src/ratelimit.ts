@@ -0,0 +1,216 @@
+import { config } from "./config";
+import { TooManyRequestsError } from "./errors";
+import type { HttpRequest } from "./event";
+import type { Middleware } from "./middleware";
+
+export interface RateLimitPolicy {
+  /** Bucket size: how many requests may be made in a burst */
+  capacity: number;
+  /** Tokens added back per second */
+  refillPerSecond: number;
+}
+
+export interface Bucket {
+  tokens: number;
+  /** When `tokens` was last brought up to date, in milliseconds */
+  updatedAt: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Whole tokens left after this request */
+  remaining: number;
+  /** Seconds until the next token, when the request was refused */
+  retryAfterSeconds: number;
+  /** Seconds until the bucket is full again */
+  resetSeconds: number;
+}
+
+/**
+ * Refills a bucket for the time elapsed and tries to take one token.
+ * Pure, so shared stores can run it inside their own transaction.
+ */
+export function takeToken(
+  bucket: Bucket | undefined,
+  policy: RateLimitPolicy,
+  now: number
+): { bucket: Bucket; result: RateLimitResult } {
+  const { capacity, refillPerSecond } = policy;
+  const elapsed = bucket ? Math.max(0, now - bucket.updatedAt) / 1000 : 0;
+  const available = bucket
+    ? Math.min(capacity, bucket.tokens + elapsed * refillPerSecond)
+    : capacity;
+
+  const allowed = available >= 1;
+  const tokens = allowed ? available - 1 : available;
+  return {
+    bucket: { tokens, updatedAt: now },
+    result: {
+      allowed,
+      remaining: Math.floor(tokens),
+      retryAfterSeconds: allowed
+        ? 0
+        : Math.ceil((1 - tokens) / refillPerSecond),
+      resetSeconds: Math.ceil((capacity - tokens) / refillPerSecond),
+    },
+  };
+}
+
+/**
+ * Where buckets live. `take` must be atomic per key for limits to hold
+ * across concurrent requests.
+ */
+export interface RateLimitStore {
+  take(
+    key: string,
+    policy: RateLimitPolicy,
+    now: number
+  ): Promise<RateLimitResult>;
+}
+
+/**
+ * Keeps buckets in memory. Each warm container has its own, so the
+ * effective limit grows with concurrency; use a `SharedRateLimitStore`
+ * when that matters.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly buckets = new Map<string, Bucket>();
+
+  constructor(private readonly maxKeys = 10_000) {}
+
+  async take(
+    key: string,
+    policy: RateLimitPolicy,
+    now: number
+  ): Promise<RateLimitResult> {
+    const { bucket, result } = takeToken(this.buckets.get(key), policy, now);
+    // Re-insert so the Map stays ordered by last use
+    this.buckets.delete(key);
+    this.buckets.set(key, bucket);
+    if (this.buckets.size > this.maxKeys) {
+      this.buckets.delete(this.buckets.keys().next().value!);
+    }
+    return result;
+  }
+
+  clear(): void {
+    this.buckets.clear();
+  }
+}
+
+/** A stored bucket and the version it was written at */
+export interface VersionedBucket {
+  bucket: Bucket;
+  version: number;
+}
+
+/**
+ * A key-value table with conditional writes, shared by every container.
+ * With DynamoDB, `put` is a PutItem with a condition on the version
+ * attribute (`attribute_not_exists` for a new key); with Redis, a
+ * WATCH/MULTI transaction.
+ */
+export interface BucketTable {
+  get(key: string): Promise<VersionedBucket | undefined>;
+  /**
+   * Writes `bucket` at `expectedVersion + 1`, only if the stored version
+   * is still `expectedVersion` (or the key is still absent, when it is
+   * undefined). Resolves false when another request wrote first.
+   */
+  put(
+    key: string,
+    bucket: Bucket,
+    expectedVersion: number | undefined
+  ): Promise<boolean>;
+}
+
+/**
+ * Keeps buckets in a `BucketTable`, so one limit holds across containers.
+ * Each take reads the bucket and writes it back conditionally, starting
+ * over when another request updated it in between. A bucket still
+ * contended after `maxAttempts` is treated as empty.
+ *
+ *     rateLimit({ store: new SharedRateLimitStore(dynamoBucketTable) })
+ */
+export class SharedRateLimitStore implements RateLimitStore {
+  constructor(
+    private readonly table: BucketTable,
+    private readonly maxAttempts = 5
+  ) {}
+
+  async take(
+    key: string,
+    policy: RateLimitPolicy,
+    now: number
+  ): Promise<RateLimitResult> {
+    for (let attempt = 1; ; attempt++) {
+      const current = await this.table.get(key);
+      const { bucket, result } = takeToken(current?.bucket, policy, now);
+      if (await this.table.put(key, bucket, current?.version)) return result;
+      if (attempt >= this.maxAttempts) {
+        return {
+          ...result,
+          allowed: false,
+          remaining: 0,
+          retryAfterSeconds: Math.max(1, result.retryAfterSeconds),
+        };
+      }
+    }
+  }
+}
+
+export interface RateLimitOptions {
+  /** Defaults to `config.rateLimit` */
+  policy?: RateLimitPolicy;
+  store?: RateLimitStore;
+  /** Which bucket a request draws from; API key, else source IP */
+  key?: (request: HttpRequest) => string;
+}
+
+export const defaultStore = new MemoryRateLimitStore();
+
+function clientKey(request: HttpRequest): string {
+  return request.apiKey
+    ? `key:${request.apiKey}`
+    : `ip:${request.sourceIp || "unknown"}`;
+}
+
+function rateLimitHeaders(
+  policy: RateLimitPolicy,
+  result: RateLimitResult
+): Record<string, string> {
+  const window = Math.ceil(policy.capacity / policy.refillPerSecond);
+  return {
+    "ratelimit-limit": String(policy.capacity),
+    "ratelimit-remaining": String(result.remaining),
+    "ratelimit-reset": String(result.resetSeconds),
+    "ratelimit-policy": `${policy.capacity};w=${window}`,
+  };
+}
+
+/**
+ * Token-bucket rate limiting. Every response carries `RateLimit-*`
+ * headers; refused requests get a 429 with `Retry-After`.
+ */
+export function rateLimit(options: RateLimitOptions = {}): Middleware {
+  const store = options.store || defaultStore;
+  const key = options.key || clientKey;
+
+  return async (request, next) => {
+    if (!config.rateLimit.enabled) return next();
+
+    const policy = options.policy || config.rateLimit;
+    const result = await store.take(key(request), policy, Date.now());
+    const headers = rateLimitHeaders(policy, result);
+    if (!result.allowed) {
+      throw new TooManyRequestsError(
+        result.retryAfterSeconds,
+        "Rate limit exceeded",
+        { headers }
+      );
+    }
+
+    const response = await next();
+    return { ...response, headers: { ...response.headers, ...headers } };
+  };
+}
@@ -0,0 +1,82 @@
+import type { APIGatewayProxyStructuredResultV2 } from "aws-lambda";
+
+/**
+ * Writes a response body a piece at a time. `signal` aborts when the
+ * client disconnects or the invocation is about to time out; the producer
+ * should stop writing and return.
+ */
+export interface BodyWriter {
+  write(chunk: string): Promise<void>;
+  readonly signal: AbortSignal;
+}
+
+export type StreamProducer = (writer: BodyWriter) => Promise<void>;
+
+/**
+ * The framework's internal response. It has the Function URL result shape;
+ * adapters convert it for other event sources.
+ */
+export type HttpResponse = APIGatewayProxyStructuredResultV2 & {
+  /** Produces the body incrementally, instead of `body`; see `streamResp` */
+  stream?: StreamProducer;
+};
+
+const responses = new WeakSet<object>();
+
+/**
+ * Builds a complete response. Route handlers return one of these when they
+ * need full control, e.g. for HTML pages; anything else they return is
+ * treated as data and serialized through content negotiation.
+ */
+export function resp(
+  statusCode: number,
+  body: string,
+  contentType: string
+): HttpResponse {
+  const result = {
+    statusCode,
+    headers: {
+      "content-type": contentType,
+      "cache-control": "no-store",
+    },
+    body,
+  };
+  responses.add(result);
+  return result;
+}
+
+/**
+ * Builds a response whose body is written as it is produced. Under the
+ * streaming entry point each chunk is sent as soon as it is written; the
+ * buffered entry point waits for the producer and sends everything at once.
+ */
+export function streamResp(
+  statusCode: number,
+  contentType: string,
+  stream: StreamProducer
+): HttpResponse {
+  const result: HttpResponse = resp(statusCode, "", contentType);
+  result.stream = stream;
+  return result;
+}
+
+export function isResponse(value: unknown): value is HttpResponse {
+  return typeof value === "object" && value !== null && responses.has(value);
+}
+
+/**
+ * Adds a value to the response's Vary header without duplicating it.
+ */
+export function appendVary(
+  headers: Record<string, string | number | boolean>,
+  value: string
+): void {
+  const existing = String(headers["vary"] || "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+  if (existing.some((item) => item.toLowerCase() === value.toLowerCase())) {
+    return;
+  }
+  headers["vary"] = [...existing, value].join(", ");
+}
@@ -0,0 +1,346 @@
+import type { Context } from "aws-lambda";
+import type { RequestBody } from "./body";
+import type { CachePolicy } from "./cache";
+import type { CompressionOptions } from "./compression";
+import { BadRequestError } from "./errors";
+import type { HttpRequest } from "./event";
+import type { Logger } from "./logger";
+import type { Metrics } from "./metrics";
+import type { Middleware } from "./middleware";
+import { ValidationError, type Schema, type ValidationIssue } from "./schema";
+import type { Span } from "./tracing";
+
+export type HttpMethod =
+  "GET" | "HEAD" | "POST" | "PUT" | "PATCH" | "DELETE" | "OPTIONS";
+
+type ParamNames<P extends string> =
+  P extends `${string}:${infer Name}/${infer Rest}`
+    ? Name | ParamNames<`/${Rest}`>
+    : P extends `${string}:${infer Name}`
+      ? Name
+      : never;
+
+/**
+ * Path parameters extracted from a route pattern such as `/api/items/:id`.
+ * A trailing `*` captures the rest of the path under the `"*"` key.
+ */
+export type PathParams<P extends string> = {
+  [K in ParamNames<P>]: string;
+} & (P extends `${string}*` ? { "*": string } : {});
+
+/**
+ * Schemas a route can declare for its input. Query, params and headers are
+ * coerced from strings; the body is checked as parsed.
+ */
+export interface RouteSchema {
+  query?: Schema<unknown>;
+  params?: Schema<unknown>;
+  headers?: Schema<unknown>;
+  body?: Schema<unknown>;
+}
+
+type InputOf<S, Fallback> = S extends Schema<infer T> ? T : Fallback;
+
+/**
+ * Validated request input, typed from the route schema.
+ */
+export interface RouteInput<Params, S extends RouteSchema> {
+  params: InputOf<S["params"], Params>;
+  query: InputOf<S["query"], Record<string, string | undefined>>;
+  headers: InputOf<S["headers"], Record<string, string | undefined>>;
+  body: InputOf<S["body"], unknown>;
+}
+
+export interface RouteContext<
+  Params = Record<string, string>,
+  S extends RouteSchema = {},
+> {
+  request: HttpRequest;
+  method: string;
+  path: string;
+  params: Params;
+  body: RequestBody;
+  input: RouteInput<Params, S>;
+  /** Logger carrying the request and Lambda request IDs */
+  log: Logger;
+  /** Custom metrics, written with the request's own when it completes */
+  metrics: Metrics;
+  /**
+   * The route handler's span; wrap work in `span.run()` for child spans and
+   * pass `span.headers()` on outbound calls to continue the trace
+   */
+  span: Span;
+  /**
+   * Aborts with reason `"deadline"` when the route's time is up; by then
+   * the client has its 504, so stop work that would be wasted
+   */
+  signal: AbortSignal;
+  /** The Lambda invocation context; absent when called without one */
+  lambda?: Context;
+}
+
+/**
+ * Route handlers return plain data, which is serialized according to the
+ * Accept header, or a complete response built with `resp()`.
+ */
+export type RouteHandler<
+  Params = Record<string, string>,
+  S extends RouteSchema = {},
+> = (ctx: RouteContext<Params, S>) => unknown;
+
+/**
+ * What the OpenAPI document says about a route beyond its schema.
+ */
+export interface RouteDocs {
+  summary?: string;
+  description?: string;
+  /** Groups routes on the /docs page */
+  tags?: string[];
+  /** Shape of the data a successful call returns */
+  response?: Schema<unknown>;
+  /** Leave the route out of the document, e.g. pages and static files */
+  hidden?: boolean;
+}
+
+export interface RouteDefinition<Params, S extends RouteSchema> {
+  schema?: S;
+  docs?: RouteDocs;
+  /** Media types the route's data can be served as; defaults to all */
+  produces?: string[];
+  /** Compression settings for this route, or false to never compress */
+  compress?: false | CompressionOptions;
+  /** Cache policy for GET/HEAD responses; defaults to no-store */
+  cache?: CachePolicy;
+  /** Middleware run for this route only, after the router's own */
+  middleware?: Middleware[];
+  /**
+   * Milliseconds the route's middleware and handler may take before a 504,
+   * when shorter than what is left of the invocation
+   */
+  timeoutMs?: number;
+  handler: RouteHandler<Params, S>;
+}
+
+export interface Route {
+  method: HttpMethod;
+  pattern: string;
+  schema: RouteSchema;
+  docs?: RouteDocs;
+  produces?: string[];
+  compress?: false | CompressionOptions;
+  cache?: CachePolicy;
+  middleware?: Middleware[];
+  timeoutMs?: number;
+  // A method, so handlers typed for their own params and schema fit here
+  handler(ctx: RouteContext<unknown, RouteSchema>): unknown;
+  match: (path: string) => Record<string, string> | undefined;
+}
+
+export type RouteMatch =
+  | { status: "found"; route: Route; params: Record<string, string> }
+  | { status: "method-not-allowed"; allow: HttpMethod[] }
+  | { status: "not-found" };
+
+/**
+ * Normalizes an incoming path so that "" and "/" are treated the same.
+ */
+export function normalizePath(path: string): string {
+  if (!path) return "/";
+  return path.startsWith("/") ? path : "/" + path;
+}
+
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new BadRequestError(`Malformed path segment "${segment}"`);
+  }
+}
+
+/**
+ * Compiles a route pattern into a matcher returning the extracted params,
+ * or undefined when the path does not match.
+ */
+export function compilePattern(
+  pattern: string
+): (path: string) => Record<string, string> | undefined {
+  const segments = normalizePath(pattern).split("/").slice(1);
+  const wildcard = segments[segments.length - 1] === "*";
+  if (wildcard) segments.pop();
+
+  if (segments.slice(0, -1).includes("*")) {
+    throw new Error(`Wildcard must be the last segment in "${pattern}"`);
+  }
+
+  return (path) => {
+    const parts = normalizePath(path).split("/").slice(1);
+    const lengthMatches = wildcard
+      ? parts.length >= segments.length
+      : parts.length === segments.length;
+    if (!lengthMatches) return undefined;
+
+    const params: Record<string, string> = {};
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i];
+      const part = parts[i];
+      if (segment.startsWith(":")) {
+        if (!part) return undefined;
+        params[segment.slice(1)] = decodeSegment(part);
+      } else if (segment !== part) {
+        return undefined;
+      }
+    }
+
+    if (wildcard) {
+      params["*"] = parts.slice(segments.length).join("/");
+    }
+    return params;
+  };
+}
+
+/**
+ * A small routing table keyed by method and path pattern.
+ */
+export class Router {
+  /** Registered routes, in the order they are matched */
+  readonly routes: Route[] = [];
+  /** Middleware run for every request, before routing */
+  readonly middleware: Middleware[] = [];
+
+  use(...middleware: Middleware[]): this {
+    this.middleware.push(...middleware);
+    return this;
+  }
+
+  add<P extends string, S extends RouteSchema = {}>(
+    method: HttpMethod,
+    pattern: P,
+    route: RouteHandler<PathParams<P>, S> | RouteDefinition<PathParams<P>, S>
+  ): this {
+    const definition = typeof route === "function" ? { handler: route } : route;
+    this.routes.push({
+      ...definition,
+      method,
+      pattern,
+      schema: definition.schema || {},
+      match: compilePattern(pattern),
+    });
+    return this;
+  }
+
+  get<P extends string, S extends RouteSchema = {}>(
+    pattern: P,
+    route: RouteHandler<PathParams<P>, S> | RouteDefinition<PathParams<P>, S>
+  ) {
+    return this.add("GET", pattern, route);
+  }
+
+  post<P extends string, S extends RouteSchema = {}>(
+    pattern: P,
+    route: RouteHandler<PathParams<P>, S> | RouteDefinition<PathParams<P>, S>
+  ) {
+    return this.add("POST", pattern, route);
+  }
+
+  put<P extends string, S extends RouteSchema = {}>(
+    pattern: P,
+    route: RouteHandler<PathParams<P>, S> | RouteDefinition<PathParams<P>, S>
+  ) {
+    return this.add("PUT", pattern, route);
+  }
+
+  patch<P extends string, S extends RouteSchema = {}>(
+    pattern: P,
+    route: RouteHandler<PathParams<P>, S> | RouteDefinition<PathParams<P>, S>
+  ) {
+    return this.add("PATCH", pattern, route);
+  }
+
+  delete<P extends string, S extends RouteSchema = {}>(
+    pattern: P,
+    route: RouteHandler<PathParams<P>, S> | RouteDefinition<PathParams<P>, S>
+  ) {
+    return this.add("DELETE", pattern, route);
+  }
+
+  /**
+   * Finds the route for a method and path. GET routes also answer HEAD
+   * unless a HEAD route was registered explicitly.
+   */
+  match(method: string, path: string): RouteMatch {
+    const allow: HttpMethod[] = [];
+    let fallback: RouteMatch | undefined;
+
+    for (const route of this.routes) {
+      const params = route.match(path);
+      if (!params) continue;
+
+      if (route.method === method) {
+        return { status: "found", route, params };
+      }
+      if (method === "HEAD" && route.method === "GET" && !fallback) {
+        fallback = { status: "found", route, params };
+      }
+
+      if (!allow.includes(route.method)) allow.push(route.method);
+      if (route.method === "GET" && !allow.includes("HEAD")) allow.push("HEAD");
+    }
+
+    if (fallback) return fallback;
+    if (allow.length > 0) return { status: "method-not-allowed", allow };
+    return { status: "not-found" };
+  }
+}
+
+function lowerCaseKeys(
+  record: Record<string, string | undefined> | undefined
+): Record<string, string | undefined> {
+  const out: Record<string, string | undefined> = {};
+  for (const [key, value] of Object.entries(record || {})) {
+    out[key.toLowerCase()] = value;
+  }
+  return out;
+}
+
+/**
+ * Checks request input against the route schema before the handler runs.
+ * Every failing field is collected into a single ValidationError.
+ */
+export function validateInput(
+  schema: RouteSchema,
+  raw: {
+    params: Record<string, string>;
+    query?: Record<string, string | undefined>;
+    headers?: Record<string, string | undefined>;
+    body: RequestBody;
+  }
+): RouteInput<unknown, RouteSchema> {
+  const issues: ValidationIssue[] = [];
+  const check = (
+    location: keyof RouteSchema,
+    value: unknown,
+    coerce: boolean
+  ) => {
+    const part = schema[location];
+    if (!part) return value;
+    if (value === undefined && !part.meta.optional) {
+      issues.push({ field: location, message: "is required" });
+      return value;
+    }
+    return part.check(value, location, issues, coerce);
+  };
+
+  const input = {
+    params: check("params", raw.params, true),
+    query: check("query", raw.query || {}, true),
+    headers: check("headers", lowerCaseKeys(raw.headers), true),
+    body: check(
+      "body",
+      raw.body.type === "none" ? undefined : raw.body.value,
+      raw.body.type === "form"
+    ),
+  };
+
+  if (issues.length > 0) throw new ValidationError(issues);
+  return input;
+}
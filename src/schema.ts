@@ -0,0 +1,405 @@
+import { BadRequestError } from "./errors";
+
+/**
+ * A minimal schema library for validating request input. Schemas both check
+ * values at runtime and carry the static type handlers receive.
+ */
+
+export interface ValidationIssue {
+  /** Dotted location of the bad value, e.g. `query.limit` */
+  field: string;
+  message: string;
+}
+
+export interface SchemaMeta {
+  optional?: boolean;
+  defaultValue?: unknown;
+  options?: StringOptions | NumberOptions;
+  values?: readonly string[];
+  items?: Schema<unknown>;
+  shape?: Record<string, Schema<unknown>>;
+  /** Schema of every value in a record */
+  additional?: Schema<unknown>;
+  /** The only value a literal accepts */
+  constant?: string | number | boolean;
+  /** Alternatives of a union */
+  variants?: Schema<unknown>[];
+}
+
+export interface Schema<T> {
+  readonly type: string;
+  readonly meta: SchemaMeta;
+  /**
+   * Validates `value`, pushing any problems onto `issues`. When `coerce` is
+   * set, strings are converted to numbers or booleans as declared.
+   */
+  check(
+    value: unknown,
+    field: string,
+    issues: ValidationIssue[],
+    coerce: boolean
+  ): T;
+  optional(): Schema<T | undefined>;
+  default(value: Exclude<T, undefined>): Schema<Exclude<T, undefined>>;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type ObjectOutput<S extends Shape> = Simplify<
+  {
+    [K in keyof S as undefined extends Infer<S[K]> ? never : K]: Infer<S[K]>;
+  } & {
+    [K in keyof S as undefined extends Infer<S[K]> ? K : never]?: Infer<S[K]>;
+  }
+>;
+
+/**
+ * Raised when request input does not match the route schema. Carries every
+ * issue found so the client can fix them all at once.
+ */
+export class ValidationError extends BadRequestError {
+  constructor(readonly issues: ValidationIssue[]) {
+    super(`Request validation failed: ${issues.length} issue(s)`, {
+      extensions: { issues },
+    });
+    this.name = "ValidationError";
+  }
+}
+
+function define<T>(
+  type: string,
+  check: Schema<T>["check"],
+  meta: SchemaMeta = {}
+): Schema<T> {
+  const schema: Schema<T> = {
+    type,
+    meta,
+    check,
+    optional: () =>
+      define<T | undefined>(
+        type,
+        (value, field, issues, coerce) =>
+          value === undefined ? undefined : check(value, field, issues, coerce),
+        { ...meta, optional: true }
+      ),
+    default: (fallback) =>
+      define<Exclude<T, undefined>>(
+        type,
+        (value, field, issues, coerce) =>
+          value === undefined
+            ? fallback
+            : (check(value, field, issues, coerce) as Exclude<T, undefined>),
+        { ...meta, optional: true, defaultValue: fallback }
+      ),
+  };
+  return schema;
+}
+
+function typeIssue(
+  field: string,
+  expected: string,
+  value: unknown
+): ValidationIssue {
+  const actual =
+    value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+  return { field, message: `expected ${expected}, got ${actual}` };
+}
+
+export interface StringOptions {
+  minLength?: number;
+  maxLength?: number;
+  pattern?: RegExp;
+}
+
+function string(options: StringOptions = {}): Schema<string> {
+  return define<string>(
+    "string",
+    (value, field, issues) => {
+      if (typeof value !== "string") {
+        issues.push(typeIssue(field, "string", value));
+        return value as string;
+      }
+      const { minLength, maxLength } = options;
+      if (minLength !== undefined && value.length < minLength) {
+        issues.push({ field, message: `must be at least ${minLength} chars` });
+      }
+      if (maxLength !== undefined && value.length > maxLength) {
+        issues.push({ field, message: `must be at most ${maxLength} chars` });
+      }
+      if (options.pattern && !options.pattern.test(value)) {
+        issues.push({ field, message: `must match ${options.pattern}` });
+      }
+      return value;
+    },
+    { options }
+  );
+}
+
+export interface NumberOptions {
+  min?: number;
+  /** Like `min`, but the bound itself is rejected too */
+  greaterThan?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+function number(options: NumberOptions = {}): Schema<number> {
+  return define<number>(
+    options.integer ? "integer" : "number",
+    (value, field, issues, coerce) => {
+      let n = value;
+      if (coerce && typeof value === "string" && value.trim() !== "") {
+        n = Number(value);
+      }
+      if (typeof n !== "number" || Number.isNaN(n)) {
+        issues.push(typeIssue(field, "number", value));
+        return value as number;
+      }
+      if (options.integer && !Number.isInteger(n)) {
+        issues.push({ field, message: "must be an integer" });
+      }
+      if (options.min !== undefined && n < options.min) {
+        issues.push({ field, message: `must be >= ${options.min}` });
+      }
+      if (options.greaterThan !== undefined && n <= options.greaterThan) {
+        issues.push({ field, message: `must be > ${options.greaterThan}` });
+      }
+      if (options.max !== undefined && n > options.max) {
+        issues.push({ field, message: `must be <= ${options.max}` });
+      }
+      return n;
+    },
+    { options }
+  );
+}
+
+function integer(options: Omit<NumberOptions, "integer"> = {}) {
+  return number({ ...options, integer: true });
+}
+
+const TRUE_STRINGS = ["true", "1", "yes"];
+const FALSE_STRINGS = ["false", "0", "no"];
+
+function boolean(): Schema<boolean> {
+  return define<boolean>("boolean", (value, field, issues, coerce) => {
+    if (coerce && typeof value === "string") {
+      const lower = value.toLowerCase();
+      if (TRUE_STRINGS.includes(lower)) return true;
+      if (FALSE_STRINGS.includes(lower)) return false;
+    }
+    if (typeof value !== "boolean") {
+      issues.push(typeIssue(field, "boolean", value));
+    }
+    return value as boolean;
+  });
+}
+
+function enumOf<const V extends readonly string[]>(
+  values: V
+): Schema<V[number]> {
+  return define<V[number]>(
+    "string",
+    (value, field, issues) => {
+      if (!values.includes(value as string)) {
+        issues.push({ field, message: `must be one of ${values.join(", ")}` });
+      }
+      return value as V[number];
+    },
+    { values }
+  );
+}
+
+function array<T>(items: Schema<T>): Schema<T[]> {
+  return define<T[]>(
+    "array",
+    (value, field, issues, coerce) => {
+      // Repeated query keys arrive comma-joined in v2 events
+      const list =
+        coerce && typeof value === "string" ? value.split(",") : value;
+      if (!Array.isArray(list)) {
+        issues.push(typeIssue(field, "array", value));
+        return value as T[];
+      }
+      return list.map((item, i) =>
+        items.check(item, `${field}[${i}]`, issues, coerce)
+      );
+    },
+    { items }
+  );
+}
+
+function object<S extends Shape>(shape: S): Schema<ObjectOutput<S>> {
+  return define<ObjectOutput<S>>(
+    "object",
+    (value, field, issues, coerce) => {
+      if (typeof value !== "object" || !value || Array.isArray(value)) {
+        issues.push(typeIssue(field, "object", value));
+        return value as ObjectOutput<S>;
+      }
+
+      // Unknown keys are dropped so handlers only see what they declared
+      const input = value as Record<string, unknown>;
+      const output: Record<string, unknown> = {};
+      for (const [key, schema] of Object.entries(shape)) {
+        const path = field ? `${field}.${key}` : key;
+        if (input[key] === undefined && !schema.meta.optional) {
+          issues.push({ field: path, message: "is required" });
+          continue;
+        }
+        const checked = schema.check(input[key], path, issues, coerce);
+        if (checked !== undefined) output[key] = checked;
+      }
+      return output as ObjectOutput<S>;
+    },
+    { shape }
+  );
+}
+
+function record<T>(values: Schema<T>): Schema<Record<string, T>> {
+  return define<Record<string, T>>(
+    "object",
+    (value, field, issues, coerce) => {
+      if (typeof value !== "object" || !value || Array.isArray(value)) {
+        issues.push(typeIssue(field, "object", value));
+        return value as Record<string, T>;
+      }
+      const output: Record<string, T> = {};
+      for (const [key, item] of Object.entries(value)) {
+        const path = field ? `${field}.${key}` : key;
+        output[key] = values.check(item, path, issues, coerce);
+      }
+      return output;
+    },
+    { additional: values }
+  );
+}
+
+function literal<const V extends string | number | boolean>(
+  constant: V
+): Schema<V> {
+  return define<V>(
+    typeof constant,
+    (value, field, issues) => {
+      if (value !== constant) {
+        issues.push({ field, message: `must be ${JSON.stringify(constant)}` });
+      }
+      return value as V;
+    },
+    { constant }
+  );
+}
+
+function describe(schema: Schema<unknown>): string {
+  const { constant } = schema.meta;
+  return constant !== undefined ? JSON.stringify(constant) : schema.type;
+}
+
+/**
+ * The first variant the value passes. When none does, the issues reported
+ * are those of a variant the value got past the type check of, if any.
+ */
+function union<V extends Schema<unknown>[]>(
+  ...variants: V
+): Schema<Infer<V[number]>> {
+  return define<Infer<V[number]>>(
+    "union",
+    (value, field, issues, coerce) => {
+      let closest: ValidationIssue[] | undefined;
+      for (const variant of variants) {
+        const attempt: ValidationIssue[] = [];
+        const checked = variant.check(value, field, attempt, coerce);
+        if (attempt.length === 0) return checked as Infer<V[number]>;
+        if (!closest && attempt.every((issue) => issue.field !== field)) {
+          closest = attempt;
+        }
+      }
+      issues.push(
+        ...(closest || [
+          typeIssue(field, variants.map(describe).join(" or "), value),
+        ])
+      );
+      return value as Infer<V[number]>;
+    },
+    { variants }
+  );
+}
+
+/**
+ * Schema builders, e.g. `s.object({ limit: s.integer({ max: 50 }).optional() })`.
+ */
+export const s = {
+  string,
+  number,
+  integer,
+  boolean,
+  enum: enumOf,
+  array,
+  object,
+  record,
+  literal,
+  union,
+};
+
+/**
+ * Runs a schema and throws a ValidationError listing every issue found.
+ */
+export function validate<T>(
+  schema: Schema<T>,
+  value: unknown,
+  field = "",
+  coerce = false
+): T {
+  const issues: ValidationIssue[] = [];
+  const result = schema.check(value, field, issues, coerce);
+  if (issues.length > 0) throw new ValidationError(issues);
+  return result;
+}
+
+/** A JSON Schema (draft 2020-12) object, as used by OpenAPI 3.1 */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Describes a schema as JSON Schema, for API documentation. Optional
+ * object properties are left out of `required`.
+ */
+export function toJsonSchema(schema: Schema<unknown>): JsonSchema {
+  const { meta } = schema;
+  if (meta.variants) {
+    const out: JsonSchema = { anyOf: meta.variants.map(toJsonSchema) };
+    if (meta.defaultValue !== undefined) out.default = meta.defaultValue;
+    return out;
+  }
+  const out: JsonSchema = { type: schema.type };
+
+  if (meta.constant !== undefined) out.const = meta.constant;
+  if (meta.values) out.enum = [...meta.values];
+  const options = (meta.options || {}) as StringOptions & NumberOptions;
+  if (options.minLength !== undefined) out.minLength = options.minLength;
+  if (options.maxLength !== undefined) out.maxLength = options.maxLength;
+  if (options.pattern) out.pattern = options.pattern.source;
+  if (options.min !== undefined) out.minimum = options.min;
+  if (options.greaterThan !== undefined) {
+    out.exclusiveMinimum = options.greaterThan;
+  }
+  if (options.max !== undefined) out.maximum = options.max;
+  if (meta.items) out.items = toJsonSchema(meta.items);
+  if (meta.additional) {
+    out.additionalProperties = toJsonSchema(meta.additional);
+  }
+  if (meta.shape) {
+    const entries = Object.entries(meta.shape);
+    out.properties = Object.fromEntries(
+      entries.map(([key, value]) => [key, toJsonSchema(value)])
+    );
+    const required = entries
+      .filter(([, value]) => !value.meta.optional)
+      .map(([key]) => key);
+    if (required.length > 0) out.required = required;
+  }
+  if (meta.defaultValue !== undefined) out.default = meta.defaultValue;
+  return out;
+}
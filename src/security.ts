@@ -0,0 +1,155 @@
+import { createHash, randomBytes } from "crypto";
+import { config } from "./config";
+import type { Middleware } from "./middleware";
+import type { HttpResponse } from "./response";
+
+/**
+ * Content-Security-Policy directives and their source lists. `'nonce'`
+ * (`NONCE`) in a source list is replaced with the request's nonce.
+ */
+export type CspDirectives = Record<string, string[]>;
+
+/** Placeholder for `'nonce-…'` in CSP source lists */
+export const NONCE = "'nonce'";
+
+export interface HstsPolicy {
+  /** How long browsers should only use HTTPS, in seconds */
+  maxAge: number;
+  includeSubDomains: boolean;
+  preload: boolean;
+}
+
+export interface SecurityPolicy {
+  /** Content-Security-Policy directives; false to send none */
+  contentSecurityPolicy: CspDirectives | false;
+  /** Who may embed responses in a frame: `'none'`, `'self'` or origins */
+  frameAncestors: string[];
+  /** Strict-Transport-Security; false to send none */
+  hsts: HstsPolicy | false;
+  referrerPolicy: string;
+  /** Features and the origins allowed to use them; empty turns one off */
+  permissionsPolicy: Record<string, string[]>;
+}
+
+/**
+ * A fresh nonce for one response. 128 bits, as CSP recommends.
+ */
+export function createNonce(): string {
+  return randomBytes(16).toString("base64");
+}
+
+/**
+ * A `'sha256-…'` source allowing one inline script or style by its exact
+ * content. Unlike a nonce it is the same on every response.
+ */
+export function cspHash(content: string): string {
+  return `'sha256-${createHash("sha256").update(content).digest("base64")}'`;
+}
+
+export function formatCsp(directives: CspDirectives, nonce: string): string {
+  return Object.entries(directives)
+    .map(([name, sources]) =>
+      [
+        name,
+        ...sources.map((source) =>
+          source === NONCE ? `'nonce-${nonce}'` : source
+        ),
+      ].join(" ")
+    )
+    .join("; ");
+}
+
+/**
+ * Formats Permissions-Policy, e.g. `camera=(), geolocation=(self)`.
+ * Origins are quoted; `self` and `*` are not.
+ */
+export function formatPermissionsPolicy(
+  features: Record<string, string[]>
+): string {
+  return Object.entries(features)
+    .map(([feature, origins]) => {
+      const allowlist = origins.map((origin) =>
+        origin === "self" || origin === "*" ? origin : `"${origin}"`
+      );
+      return `${feature}=(${allowlist.join(" ")})`;
+    })
+    .join(", ");
+}
+
+function formatHsts(hsts: HstsPolicy): string {
+  return [
+    `max-age=${hsts.maxAge}`,
+    hsts.includeSubDomains && "includeSubDomains",
+    hsts.preload && "preload",
+  ]
+    .filter(Boolean)
+    .join("; ");
+}
+
+/**
+ * The header values for a policy. `X-Frame-Options` is derived from
+ * `frameAncestors` for browsers that predate CSP.
+ */
+export function securityHeaderValues(
+  policy: SecurityPolicy,
+  nonce: string
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    "x-content-type-options": "nosniff",
+    "referrer-policy": policy.referrerPolicy,
+  };
+
+  const ancestors = policy.frameAncestors;
+  if (policy.contentSecurityPolicy || ancestors.length > 0) {
+    const directives = { ...(policy.contentSecurityPolicy || {}) };
+    if (ancestors.length > 0) directives["frame-ancestors"] = ancestors;
+    headers["content-security-policy"] = formatCsp(directives, nonce);
+  }
+  if (ancestors.length === 1 && ancestors[0] === "'none'") {
+    headers["x-frame-options"] = "DENY";
+  } else if (ancestors.length === 1 && ancestors[0] === "'self'") {
+    headers["x-frame-options"] = "SAMEORIGIN";
+  }
+
+  if (policy.hsts) {
+    headers["strict-transport-security"] = formatHsts(policy.hsts);
+  }
+  const permissions = formatPermissionsPolicy(policy.permissionsPolicy);
+  if (permissions) headers["permissions-policy"] = permissions;
+  return headers;
+}
+
+function withHeaders(
+  response: HttpResponse,
+  headers: Record<string, string>
+): HttpResponse {
+  // Headers the handler set itself win
+  return { ...response, headers: { ...headers, ...response.headers } };
+}
+
+/**
+ * Security headers as middleware. Layers merge: a route's own
+ * `securityHeaders({...})` overrides fields of the global one, and only
+ * the outermost layer writes headers, so error responses get them too.
+ *
+ * Every request gets a nonce on `request.cspNonce` for inline scripts.
+ */
+export function securityHeaders(
+  policy: Partial<SecurityPolicy> | (() => Partial<SecurityPolicy>) = {}
+): Middleware {
+  return async (request, next) => {
+    const outermost = !request.securityPolicy;
+    request.cspNonce ??= createNonce();
+    request.securityPolicy = {
+      ...(request.securityPolicy || config.security),
+      ...(typeof policy === "function" ? policy() : policy),
+    };
+
+    const response = await next();
+    if (!outermost) return response;
+    return withHeaders(
+      response,
+      securityHeaderValues(request.securityPolicy, request.cspNonce)
+    );
+  };
+}
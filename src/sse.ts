@@ -0,0 +1,58 @@
+import { streamResp, type HttpResponse } from "./response";
+
+/**
+ * Server-Sent Events, the `text/event-stream` format browsers read with
+ * `EventSource`.
+ */
+
+export interface ServerSentEvent {
+  /** Event type; `message` when omitted */
+  event?: string;
+  /** Strings are sent as is, anything else as JSON */
+  data: unknown;
+  id?: string;
+  /** Milliseconds the client should wait before reconnecting */
+  retry?: number;
+}
+
+export function formatEvent(message: ServerSentEvent): string {
+  const data =
+    typeof message.data === "string"
+      ? message.data
+      : JSON.stringify(message.data);
+  let out = "";
+  if (message.event) out += `event: ${message.event}\n`;
+  if (message.id !== undefined) out += `id: ${message.id}\n`;
+  if (message.retry !== undefined) out += `retry: ${message.retry}\n`;
+  for (const line of data.split(/\r\n|\r|\n/)) out += `data: ${line}\n`;
+  return out + "\n";
+}
+
+/**
+ * Builds a streamed `text/event-stream` response. The producer sends events
+ * until it is done or `signal` aborts; see `StreamAbortReason`.
+ */
+export function eventStream(
+  producer: (
+    send: (message: ServerSentEvent) => Promise<void>,
+    signal: AbortSignal
+  ) => Promise<void>
+): HttpResponse {
+  return streamResp(200, "text/event-stream; charset=utf-8", (writer) =>
+    producer((message) => writer.write(formatEvent(message)), writer.signal)
+  );
+}
+
+/** Waits `ms`, or less if `signal` aborts first */
+export function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal.aborted) return resolve();
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal.addEventListener("abort", done);
+  });
+}
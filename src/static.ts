@@ -0,0 +1,139 @@
+import { createHash } from "crypto";
+import { existsSync, readFileSync, readdirSync } from "fs";
+import { extname, join, posix, relative, sep } from "path";
+import { computeEtag } from "./cache";
+import { isCompressible } from "./compression";
+import { resp, type HttpResponse } from "./response";
+
+/**
+ * A file from assets/, ready to serve.
+ */
+export interface Asset {
+  /** Path under assets/, e.g. `favicon.svg` */
+  name: string;
+  /** Content-hashed URL, e.g. `/static/favicon.1a2b3c4d.svg` */
+  url: string;
+  contentType: string;
+  etag: string;
+  /** File contents, base64 encoded */
+  body: string;
+}
+
+export const STATIC_PREFIX = "/static/";
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".css": "text/css; charset=utf-8",
+  ".js": "text/javascript; charset=utf-8",
+  ".mjs": "text/javascript; charset=utf-8",
+  ".json": "application/json; charset=utf-8",
+  ".map": "application/json; charset=utf-8",
+  ".txt": "text/plain; charset=utf-8",
+  ".html": "text/html; charset=utf-8",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".avif": "image/avif",
+  ".ico": "image/x-icon",
+  ".woff2": "font/woff2",
+  ".woff": "font/woff",
+};
+
+export function contentTypeFor(name: string): string {
+  return (
+    CONTENT_TYPES[extname(name).toLowerCase()] || "application/octet-stream"
+  );
+}
+
+/**
+ * Puts a content hash before the extension: `css/app.css` becomes
+ * `css/app.1a2b3c4d.css`.
+ */
+export function hashedName(name: string, contents: Buffer): string {
+  const hash = createHash("sha256").update(contents).digest("hex").slice(0, 8);
+  const ext = posix.extname(name);
+  return `${name.slice(0, name.length - ext.length)}.${hash}${ext}`;
+}
+
+function listFiles(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true })
+    .flatMap((entry) =>
+      entry.isDirectory()
+        ? listFiles(join(dir, entry.name))
+        : entry.isFile()
+          ? [join(dir, entry.name)]
+          : []
+    )
+    .sort();
+}
+
+/**
+ * Reads every file under a directory as an asset. Dotfiles are skipped.
+ */
+export function readAssets(dir: string): Asset[] {
+  if (!existsSync(dir)) return [];
+  return listFiles(dir)
+    .map((file) => relative(dir, file).split(sep).join("/"))
+    .filter((name) => !name.split("/").some((part) => part.startsWith(".")))
+    .map((name) => {
+      const contents = readFileSync(join(dir, name));
+      const body = contents.toString("base64");
+      return {
+        name,
+        url: STATIC_PREFIX + hashedName(name, contents),
+        contentType: contentTypeFor(name),
+        etag: computeEtag(body, true),
+        body,
+      };
+    });
+}
+
+// Embedded by src/build.ts; undefined when running from source under Jest
+// or the dev server, which read assets/ instead.
+declare const __ASSETS__: Asset[] | undefined;
+
+const assets: Asset[] =
+  typeof __ASSETS__ !== "undefined" ? __ASSETS__ : readAssets("assets");
+const byName = new Map(assets.map((asset) => [asset.name, asset]));
+const byUrl = new Map(assets.map((asset) => [asset.url, asset]));
+
+/** Asset names mapped to their hashed URLs */
+export const manifest: Readonly<Record<string, string>> = Object.freeze(
+  Object.fromEntries(assets.map((asset) => [asset.name, asset.url]))
+);
+
+export function findAsset(name: string): Asset | undefined {
+  return byName.get(name);
+}
+
+/** Finds an asset by its hashed URL path */
+export function findAssetByUrl(path: string): Asset | undefined {
+  return byUrl.get(path);
+}
+
+/**
+ * The hashed URL for an asset. Throws for names that are not in assets/,
+ * so a typo fails the first render rather than linking to a 404.
+ */
+export function assetUrl(name: string): string {
+  const asset = findAsset(name);
+  if (!asset) throw new Error(`Unknown asset "${name}"`);
+  return asset.url;
+}
+
+/**
+ * Serves an asset. Text is sent as is so it can be compressed; anything
+ * else is sent base64 encoded.
+ */
+export function assetResponse(asset: Asset): HttpResponse {
+  const text = isCompressible(asset.contentType);
+  const body = text
+    ? Buffer.from(asset.body, "base64").toString("utf8")
+    : asset.body;
+  const result = resp(200, body, asset.contentType);
+  result.headers!["etag"] = asset.etag;
+  if (!text) result.isBase64Encoded = true;
+  return result;
+}
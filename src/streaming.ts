@@ -0,0 +1,256 @@
+import type { Context } from "aws-lambda";
+import { Writable } from "stream";
+import { config } from "./config";
+import type { LambdaEvent } from "./event";
+import type { BodyWriter, HttpResponse } from "./response";
+
+/**
+ * Lambda response streaming. A Function URL with the RESPONSE_STREAM invoke
+ * mode and `index.streamHandler` as the handler sends each chunk a route
+ * writes as soon as it is written, rather than the whole body at the end.
+ *
+ * The Lambda Node.js runtime provides the `awslambda` global that does the
+ * work. Under Jest and the dev server a shim stands in for it, writing the
+ * same metadata prelude to a plain Node stream.
+ */
+
+/** The writable stream Lambda hands a streaming handler */
+export type ResponseStream = Writable & {
+  setContentType?: (contentType: string) => void;
+};
+
+export type StreamingHandler = (
+  event: LambdaEvent,
+  responseStream: ResponseStream,
+  context: Context
+) => Promise<void>;
+
+/** Status, headers and cookies, sent ahead of a streamed body */
+export interface ResponseMetadata {
+  statusCode: number;
+  headers: Record<string, string>;
+  cookies?: string[];
+}
+
+/** Why a stream's signal aborted */
+export type StreamAbortReason = "deadline" | "disconnect";
+
+interface StreamingRuntime {
+  streamifyResponse(handler: StreamingHandler): StreamingHandler;
+  HttpResponseStream: {
+    from(stream: ResponseStream, metadata: ResponseMetadata): ResponseStream;
+  };
+}
+
+// A global in the Lambda runtime; undefined under Jest and the dev server
+declare const awslambda: StreamingRuntime | undefined;
+
+/** How the runtime marks streaming handlers */
+const STREAMING = Symbol.for("aws.lambda.runtime.handler.streaming");
+
+export const METADATA_CONTENT_TYPE =
+  "application/vnd.awslambda.http-integration-response";
+
+/** Eight null bytes end the JSON metadata prelude */
+export const METADATA_DELIMITER = Buffer.alloc(8);
+
+const shim: StreamingRuntime = {
+  streamifyResponse: (handler) =>
+    Object.assign(handler, { [STREAMING]: "response" }),
+  HttpResponseStream: {
+    from(stream, metadata) {
+      stream.setContentType?.(METADATA_CONTENT_TYPE);
+      stream.write(JSON.stringify(metadata));
+      stream.write(METADATA_DELIMITER);
+      return stream;
+    },
+  },
+};
+
+const runtime: StreamingRuntime =
+  typeof awslambda !== "undefined" ? awslambda : shim;
+
+/** Wraps a handler for response streaming */
+export function streamifyResponse(handler: StreamingHandler): StreamingHandler {
+  return runtime.streamifyResponse(handler);
+}
+
+export function isStreamingHandler(
+  handler: unknown
+): handler is StreamingHandler {
+  return (
+    typeof handler === "function" &&
+    (handler as unknown as Record<symbol, unknown>)[STREAMING] === "response"
+  );
+}
+
+/**
+ * Aborts `controller` when the invocation is within the configured margin
+ * of its deadline. Returns a function that cancels the timer.
+ */
+function abortBeforeDeadline(
+  controller: AbortController,
+  context: Context | undefined
+): () => void {
+  if (!context) return () => {};
+  const ms =
+    context.getRemainingTimeInMillis() - config.streaming.deadlineMarginMs;
+  const reason: StreamAbortReason = "deadline";
+  const timer = setTimeout(() => controller.abort(reason), Math.max(0, ms));
+  return () => clearTimeout(timer);
+}
+
+function metadataOf(result: HttpResponse): ResponseMetadata {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(result.headers || {})) {
+    headers[name] = String(value);
+  }
+  return {
+    statusCode: result.statusCode ?? 200,
+    headers,
+    ...(result.cookies && result.cookies.length > 0
+      ? { cookies: result.cookies }
+      : {}),
+  };
+}
+
+/**
+ * Runs a response's stream producer to the end and puts what it wrote in
+ * `body`, for the buffered entry point. A producer that throws keeps what
+ * it wrote before failing; `onError` hears about it.
+ */
+export async function bufferResponse(
+  result: HttpResponse,
+  context?: Context,
+  onError: (err: unknown) => void = () => {}
+): Promise<HttpResponse> {
+  const { stream, ...rest } = result;
+  if (!stream) return result;
+
+  const chunks: string[] = [];
+  const controller = new AbortController();
+  const cancel = abortBeforeDeadline(controller, context);
+  try {
+    await stream({
+      signal: controller.signal,
+      write: async (chunk) => {
+        chunks.push(chunk);
+      },
+    });
+  } catch (err) {
+    onError(err);
+  } finally {
+    cancel();
+  }
+  return { ...rest, body: chunks.join("") };
+}
+
+/**
+ * Sends a response down a Lambda response stream: the metadata prelude,
+ * then the body, as produced for streamed responses. Headers are gone by
+ * the time a producer can fail, so its errors only go to `onError`.
+ */
+export async function writeResponse(
+  result: HttpResponse,
+  responseStream: ResponseStream,
+  context?: Context,
+  onError: (err: unknown) => void = () => {}
+): Promise<void> {
+  const out = runtime.HttpResponseStream.from(
+    responseStream,
+    metadataOf(result)
+  );
+  const controller = new AbortController();
+  const disconnected = () => {
+    const reason: StreamAbortReason = "disconnect";
+    if (!out.writableFinished) controller.abort(reason);
+  };
+  // A client that goes away errors the stream; that must not crash us
+  out.on("error", disconnected);
+  out.once("close", disconnected);
+  const ended = new Promise<void>((resolve) => {
+    out.once("finish", resolve);
+    out.once("close", resolve);
+  });
+
+  if (!result.stream) {
+    out.end(
+      Buffer.from(result.body ?? "", result.isBase64Encoded ? "base64" : "utf8")
+    );
+    return ended;
+  }
+  const cancel = abortBeforeDeadline(controller, context);
+
+  const writer: BodyWriter = {
+    signal: controller.signal,
+    // Resolves once the stream can take more, so slow clients apply
+    // backpressure; writes after a disconnect are dropped
+    write: (chunk) =>
+      new Promise((resolve) => {
+        if (out.destroyed || out.writableEnded) return resolve();
+        if (out.write(chunk)) return resolve();
+        const ready = () => {
+          out.off("drain", ready);
+          out.off("close", ready);
+          resolve();
+        };
+        out.on("drain", ready);
+        out.on("close", ready);
+      }),
+  };
+
+  try {
+    await result.stream(writer);
+  } catch (err) {
+    onError(err);
+  } finally {
+    cancel();
+    if (!out.destroyed) out.end();
+  }
+  return ended;
+}
+
+export interface ResponseSinkOptions {
+  onMetadata: (metadata: ResponseMetadata) => void;
+  onChunk: (chunk: Buffer) => void;
+}
+
+/**
+ * The receiving end of a response stream, as a Function URL sees it: the
+ * metadata prelude is split off and the body passed on as it arrives. The
+ * dev server and tests hand one of these to `streamHandler`.
+ */
+export class ResponseSink extends Writable {
+  metadata?: ResponseMetadata;
+  private prelude = Buffer.alloc(0);
+
+  constructor(private readonly options: ResponseSinkOptions) {
+    super();
+  }
+
+  setContentType(_contentType: string): void {}
+
+  _write(
+    chunk: Buffer,
+    _encoding: BufferEncoding,
+    callback: (error?: Error | null) => void
+  ): void {
+    if (this.metadata) {
+      this.options.onChunk(chunk);
+      return callback();
+    }
+
+    this.prelude = Buffer.concat([this.prelude, chunk]);
+    const end = this.prelude.indexOf(METADATA_DELIMITER);
+    if (end === -1) return callback();
+    try {
+      this.metadata = JSON.parse(this.prelude.subarray(0, end).toString());
+    } catch {
+      return callback(new Error("Malformed response stream metadata"));
+    }
+    this.options.onMetadata(this.metadata!);
+    const rest = this.prelude.subarray(end + METADATA_DELIMITER.length);
+    if (rest.length > 0) this.options.onChunk(rest);
+    callback();
+  }
+}
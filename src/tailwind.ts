@@ -0,0 +1,41 @@
+import { transform, type Plugin } from "esbuild";
+import { readFile } from "fs/promises";
+import { resolve } from "path";
+import postcss from "postcss";
+import tailwindcss from "tailwindcss";
+
+const configPath = resolve("tailwind.config.js");
+
+/**
+ * Compiles a Tailwind stylesheet. Only the classes that appear in the
+ * files the config lists as content end up in the output.
+ */
+export async function compileCss(
+  path: string,
+  options: { minify?: boolean } = {}
+): Promise<string> {
+  const source = await readFile(path, "utf8");
+  const { css } = await postcss([tailwindcss(configPath)]).process(source, {
+    from: path,
+  });
+  if (!options.minify) return css;
+  return (await transform(css, { loader: "css", minify: true })).code;
+}
+
+/**
+ * Lets bundled code `import styles from "./styles.css"` and get the
+ * compiled CSS as a string. Runs on every rebuild, so classes added while
+ * `yarn dev` is running show up straight away.
+ */
+export function tailwind(options: { minify?: boolean } = {}): Plugin {
+  return {
+    name: "tailwind",
+    setup(build) {
+      build.onLoad({ filter: /\.css$/ }, async (args) => ({
+        contents: await compileCss(args.path, options),
+        loader: "text",
+        watchFiles: [configPath],
+      }));
+    },
+  };
+}
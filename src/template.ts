@@ -0,0 +1,238 @@
+import { escapeHtml } from "./html";
+
+/**
+ * A compiled template: props in, HTML out.
+ */
+export type Template<Props> = (props: Props) => string;
+
+/**
+ * A template that does not parse, or names a partial that does not exist.
+ * Thrown when the template is compiled, so mistakes fail at cold start
+ * rather than on the first request that renders the page.
+ */
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateError";
+  }
+}
+
+type Node =
+  | { type: "text"; value: string }
+  | { type: "value"; path: string; raw: boolean }
+  | { type: "if"; path: string; then: Node[]; else: Node[] }
+  | { type: "each"; path: string; body: Node[] }
+  | { type: "partial"; name: string }
+  | { type: "helper"; name: string; arg: string };
+
+type Block = Extract<Node, { type: "if" | "each" }>;
+
+export type Helper = (arg: string) => string;
+
+export interface CompileOptions {
+  /** Used in error messages */
+  name?: string;
+  /** Template sources that `{{> name }}` can include */
+  partials?: Record<string, string>;
+  /** Functions that `{{ name "argument" }}` calls; the result is escaped */
+  helpers?: Record<string, Helper>;
+}
+
+// {{{ raw }}} or {{ anything else }}
+const TAG = /\{\{\{\s*([\w.]+)\s*\}\}\}|\{\{\s*(.*?)\s*\}\}/g;
+const PATH = /^\w+(\.\w+)*$/;
+
+function parse(
+  source: string,
+  name: string,
+  helpers: Record<string, Helper>
+): Node[] {
+  const root: Node[] = [];
+  const open: { block: Block; nodes: Node[] }[] = [];
+  let nodes = root;
+  let last = 0;
+
+  function fail(message: string, index: number): never {
+    const line = source.slice(0, index).split("\n").length;
+    throw new TemplateError(`${name}:${line}: ${message}`);
+  }
+
+  for (const match of source.matchAll(TAG)) {
+    const index = match.index!;
+    if (index > last)
+      nodes.push({ type: "text", value: source.slice(last, index) });
+    last = index + match[0].length;
+
+    const [, raw, tag] = match;
+    if (raw !== undefined) {
+      nodes.push({ type: "value", path: raw, raw: true });
+      continue;
+    }
+
+    let parts: RegExpExecArray | null;
+    if ((parts = /^#(if|each)\s+(\S+)$/.exec(tag)) && PATH.test(parts[2])) {
+      const block: Block =
+        parts[1] === "if"
+          ? { type: "if", path: parts[2], then: [], else: [] }
+          : { type: "each", path: parts[2], body: [] };
+      nodes.push(block);
+      open.push({ block, nodes });
+      nodes = block.type === "if" ? block.then : block.body;
+    } else if ((parts = /^\/(if|each)$/.exec(tag))) {
+      const current = open.pop();
+      if (!current || current.block.type !== parts[1]) {
+        fail(`Unexpected {{${tag}}}`, index);
+      }
+      nodes = current.nodes;
+    } else if (tag === "else") {
+      const current = open[open.length - 1];
+      if (!current || current.block.type !== "if") {
+        fail("{{else}} outside {{#if}}", index);
+      }
+      nodes = current.block.else;
+    } else if ((parts = /^>\s*([\w-]+)$/.exec(tag))) {
+      nodes.push({ type: "partial", name: parts[1] });
+    } else if ((parts = /^(\w+)\s+"([^"]*)"$/.exec(tag))) {
+      if (!Object.prototype.hasOwnProperty.call(helpers, parts[1])) {
+        fail(`Unknown helper "${parts[1]}"`, index);
+      }
+      nodes.push({ type: "helper", name: parts[1], arg: parts[2] });
+    } else if (PATH.test(tag)) {
+      nodes.push({ type: "value", path: tag, raw: false });
+    } else {
+      fail(`Unknown tag {{${tag}}}`, index);
+    }
+  }
+
+  if (open.length > 0) {
+    const { type } = open[open.length - 1].block;
+    fail(`Unclosed {{#${type}}}`, source.length);
+  }
+  if (last < source.length) {
+    nodes.push({ type: "text", value: source.slice(last) });
+  }
+  return root;
+}
+
+/**
+ * Looks up a dotted path, innermost scope first. `this` is the current
+ * item inside `{{#each}}`.
+ */
+function lookup(path: string, scopes: unknown[]): unknown {
+  const [head, ...rest] = path.split(".");
+  let value: unknown;
+  if (head === "this") {
+    value = scopes[0];
+  } else {
+    const scope = scopes.find(
+      (candidate) =>
+        candidate !== null && typeof candidate === "object" && head in candidate
+    );
+    value = scope && (scope as Record<string, unknown>)[head];
+  }
+  for (const key of rest) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function truthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : !!value;
+}
+
+interface Context {
+  partials: Map<string, Node[]>;
+  helpers: Record<string, Helper>;
+}
+
+function render(nodes: Node[], scopes: unknown[], context: Context): string {
+  let out = "";
+  for (const node of nodes) {
+    switch (node.type) {
+      case "text":
+        out += node.value;
+        break;
+      case "value": {
+        const value = lookup(node.path, scopes);
+        if (value === undefined || value === null || value === false) break;
+        out += node.raw ? String(value) : escapeHtml(String(value));
+        break;
+      }
+      case "if":
+        out += render(
+          truthy(lookup(node.path, scopes)) ? node.then : node.else,
+          scopes,
+          context
+        );
+        break;
+      case "each": {
+        const items = lookup(node.path, scopes);
+        if (!Array.isArray(items)) break;
+        for (const item of items) {
+          out += render(node.body, [item, ...scopes], context);
+        }
+        break;
+      }
+      case "partial":
+        out += render(context.partials.get(node.name)!, scopes, context);
+        break;
+      case "helper":
+        out += escapeHtml(context.helpers[node.name](node.arg));
+        break;
+    }
+  }
+  return out;
+}
+
+function partialNames(nodes: Node[]): string[] {
+  return nodes.flatMap((node) => {
+    switch (node.type) {
+      case "partial":
+        return [node.name];
+      case "if":
+        return [...partialNames(node.then), ...partialNames(node.else)];
+      case "each":
+        return partialNames(node.body);
+      default:
+        return [];
+    }
+  });
+}
+
+/**
+ * Compiles a template. `{{ path }}` is HTML-escaped and `{{{ path }}}` is
+ * inserted as is, for markup that is already safe. Blocks are
+ * `{{#if path}}…{{else}}…{{/if}}` and `{{#each path}}…{{/each}}`, and
+ * `{{> name }}` includes a partial with the same props. `{{ name "arg" }}`
+ * calls a helper, e.g. `{{ asset "favicon.svg" }}` for a hashed URL.
+ */
+export function compile<Props extends object>(
+  source: string,
+  options: CompileOptions = {}
+): Template<Props> {
+  const name = options.name || "template";
+  const helpers = options.helpers || {};
+  const nodes = parse(source, name, helpers);
+
+  const partials = new Map<string, Node[]>();
+  const pending = partialNames(nodes).map((partial) => ({
+    partial,
+    from: name,
+  }));
+  while (pending.length > 0) {
+    const { partial, from } = pending.pop()!;
+    if (partials.has(partial)) continue;
+    const partialSource = options.partials?.[partial];
+    if (partialSource === undefined) {
+      throw new TemplateError(`${from}: Unknown partial "${partial}"`);
+    }
+    const parsed = parse(partialSource, partial, helpers);
+    partials.set(partial, parsed);
+    pending.push(
+      ...partialNames(parsed).map((next) => ({ partial: next, from: partial }))
+    );
+  }
+
+  return (props) => render(nodes, [props], { partials, helpers });
+}
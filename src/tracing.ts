@@ -0,0 +1,297 @@
+import { randomBytes } from "crypto";
+import { config } from "./config";
+
+/**
+ * Trace context propagation and request spans. Incoming context is read
+ * from W3C `traceparent`/`tracestate` or the X-Ray `x-amzn-trace-id`
+ * header; trace IDs use the W3C form, 32 hex digits, which X-Ray IDs
+ * convert to and from losslessly.
+ */
+
+/** Where the request sits in a distributed trace */
+export interface TraceContext {
+  traceId: string;
+  /** The caller's span, if it sent one */
+  parentId?: string;
+  sampled: boolean;
+  /** Vendor-specific W3C `tracestate`, passed on unchanged */
+  traceState?: string;
+}
+
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/** A finished span, as exporters receive it */
+export interface SpanData {
+  traceId: string;
+  spanId: string;
+  parentId?: string;
+  name: string;
+  /** Milliseconds since the epoch */
+  startTime: number;
+  endTime: number;
+  durationMs: number;
+  attributes: SpanAttributes;
+  status: "ok" | "error";
+  error?: string;
+}
+
+/** Ships finished spans somewhere, once per invocation */
+export interface SpanExporter {
+  export(spans: SpanData[]): void;
+}
+
+const TRACEPARENT =
+  /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+const XRAY_ROOT = /^1-([0-9a-f]{8})-([0-9a-f]{24})$/;
+const INVALID_TRACE_ID = "0".repeat(32);
+const INVALID_SPAN_ID = "0".repeat(16);
+
+/** Parses a W3C `traceparent` header; undefined when malformed */
+export function parseTraceparent(
+  value: string | undefined
+): TraceContext | undefined {
+  const match = TRACEPARENT.exec((value || "").trim().toLowerCase());
+  if (!match) return undefined;
+  const [, version, traceId, parentId, flags] = match;
+  if (
+    version === "ff" ||
+    traceId === INVALID_TRACE_ID ||
+    parentId === INVALID_SPAN_ID
+  ) {
+    return undefined;
+  }
+  return { traceId, parentId, sampled: (parseInt(flags, 16) & 1) === 1 };
+}
+
+/**
+ * Parses an X-Ray trace header, e.g.
+ * `Root=1-5759e988-bd862e3fe1be46a994272793;Parent=53995c3f42cd8ad8;Sampled=1`.
+ * A missing `Sampled` counts as sampled, as X-Ray leaves the decision to us.
+ */
+export function parseXRayHeader(
+  value: string | undefined
+): TraceContext | undefined {
+  const fields: Record<string, string> = {};
+  for (const part of (value || "").split(";")) {
+    const [key, field] = part.split("=");
+    if (key && field !== undefined) fields[key.trim()] = field.trim();
+  }
+  const root = XRAY_ROOT.exec((fields["Root"] || "").toLowerCase());
+  if (!root) return undefined;
+  const parentId = fields["Parent"]?.toLowerCase();
+  return {
+    traceId: root[1] + root[2],
+    parentId:
+      parentId && /^[0-9a-f]{16}$/.test(parentId) ? parentId : undefined,
+    sampled: fields["Sampled"] !== "0",
+  };
+}
+
+/** Formats a W3C trace ID as an X-Ray root, `1-<epoch hex>-<random>` */
+export function toXRayTraceId(traceId: string): string {
+  return `1-${traceId.slice(0, 8)}-${traceId.slice(8)}`;
+}
+
+/**
+ * A new trace ID. The first 8 digits are the epoch seconds, so it is also
+ * a valid X-Ray ID.
+ */
+export function newTraceId(now = Date.now()): string {
+  const seconds = Math.floor(now / 1000)
+    .toString(16)
+    .padStart(8, "0");
+  return seconds + randomBytes(12).toString("hex");
+}
+
+export function newSpanId(): string {
+  return randomBytes(8).toString("hex");
+}
+
+/**
+ * Reads the incoming trace context. `traceparent` wins over the X-Ray
+ * header; the Lambda runtime's `_X_AMZN_TRACE_ID` is the last resort.
+ * Without any, a new sampled trace starts here.
+ */
+export function extractTraceContext(
+  headers: Record<string, string | undefined>,
+  env: Record<string, string | undefined> = process.env
+): TraceContext {
+  const w3c = parseTraceparent(headers["traceparent"]);
+  if (w3c) {
+    const traceState = headers["tracestate"]?.trim();
+    return traceState ? { ...w3c, traceState } : w3c;
+  }
+  return (
+    parseXRayHeader(headers["x-amzn-trace-id"]) ||
+    parseXRayHeader(env["_X_AMZN_TRACE_ID"]) || {
+      traceId: newTraceId(),
+      sampled: true,
+    }
+  );
+}
+
+// Set by useSpanExporter; otherwise config.tracing.exporter decides at flush
+let installed: SpanExporter | undefined;
+
+/** Sends finished spans to `next`, or back to the configured exporter */
+export function useSpanExporter(next?: SpanExporter): void {
+  installed = next;
+}
+
+/**
+ * A timed unit of work within a trace. Spans are kept until the trace is
+ * flushed, so an invocation's spans are exported together.
+ */
+export class Span {
+  readonly spanId = newSpanId();
+  readonly startTime = Date.now();
+  readonly attributes: SpanAttributes = {};
+  private endTime?: number;
+  private error?: string;
+
+  constructor(
+    readonly trace: Trace,
+    public name: string,
+    readonly parentId?: string
+  ) {}
+
+  get traceId(): string {
+    return this.trace.context.traceId;
+  }
+
+  setAttribute(name: string, value: string | number | boolean): this {
+    this.attributes[name] = value;
+    return this;
+  }
+
+  /** Marks the span as failed */
+  recordError(err: unknown): this {
+    this.error = err instanceof Error ? err.message : String(err);
+    return this;
+  }
+
+  /** Ends the span; later calls do nothing */
+  end(): void {
+    if (this.endTime !== undefined) return;
+    this.endTime = Date.now();
+    this.trace.record({
+      traceId: this.traceId,
+      spanId: this.spanId,
+      ...(this.parentId && { parentId: this.parentId }),
+      name: this.name,
+      startTime: this.startTime,
+      endTime: this.endTime,
+      durationMs: this.endTime - this.startTime,
+      attributes: { ...this.attributes },
+      status: this.error === undefined ? "ok" : "error",
+      ...(this.error !== undefined && { error: this.error }),
+    });
+  }
+
+  /** Starts a span for work done on behalf of this one */
+  child(name: string): Span {
+    return new Span(this.trace, name, this.spanId);
+  }
+
+  /**
+   * Runs `work` in a child span, which ends when it settles. Errors are
+   * recorded on the span and rethrown.
+   */
+  async run<T>(name: string, work: (span: Span) => T | Promise<T>): Promise<T> {
+    const span = this.child(name);
+    try {
+      return await work(span);
+    } catch (err) {
+      span.recordError(err);
+      throw err;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Headers that continue the trace in an outbound call, with this span as
+   * the parent: both W3C and X-Ray forms, so either kind of service
+   * downstream picks it up.
+   */
+  headers(): Record<string, string> {
+    const { sampled, traceState } = this.trace.context;
+    return {
+      traceparent: `00-${this.traceId}-${this.spanId}-${sampled ? "01" : "00"}`,
+      ...(traceState && { tracestate: traceState }),
+      "x-amzn-trace-id":
+        `Root=${toXRayTraceId(this.traceId)};Parent=${this.spanId};` +
+        `Sampled=${sampled ? 1 : 0}`,
+    };
+  }
+}
+
+/**
+ * The spans of one request. `root` covers the whole request and is the
+ * parent of everything else.
+ */
+export class Trace {
+  readonly root: Span;
+  private finished: SpanData[] = [];
+
+  constructor(
+    readonly context: TraceContext,
+    name: string
+  ) {
+    this.root = new Span(this, name, context.parentId);
+  }
+
+  /** Called by spans as they end */
+  record(span: SpanData): void {
+    this.finished.push(span);
+  }
+
+  /** Exports the spans finished so far, if the trace is sampled */
+  flush(): void {
+    const spans = this.finished;
+    this.finished = [];
+    // Without an exporter, spans are collected and dropped
+    const exporter = installed ?? configuredExporter();
+    if (exporter && this.context.sampled && spans.length > 0) {
+      exporter.export(spans);
+    }
+  }
+}
+
+/**
+ * Writes each span as a JSON line, to stdout unless given somewhere else.
+ */
+export class ConsoleSpanExporter implements SpanExporter {
+  constructor(
+    private readonly write: (line: string) => void = (line) =>
+      process.stdout.write(line + "\n")
+  ) {}
+
+  export(spans: SpanData[]): void {
+    for (const span of spans) this.write(JSON.stringify({ span }));
+  }
+}
+
+/** Keeps exported spans in memory, for tests */
+export class InMemorySpanExporter implements SpanExporter {
+  readonly spans: SpanData[] = [];
+
+  export(spans: SpanData[]): void {
+    this.spans.push(...spans);
+  }
+
+  /** The first exported span with this name */
+  find(name: string): SpanData | undefined {
+    return this.spans.find((span) => span.name === name);
+  }
+
+  clear(): void {
+    this.spans.length = 0;
+  }
+}
+
+const consoleExporter = new ConsoleSpanExporter();
+
+function configuredExporter(): SpanExporter | undefined {
+  return config.tracing.exporter === "console" ? consoleExporter : undefined;
+}
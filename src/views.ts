@@ -0,0 +1,90 @@
+import type { DocsGroup } from "./openapi";
+import { cspHash } from "./security";
+import { assetUrl } from "./static";
+import styles from "./styles.css";
+import { compile, type Template } from "./template";
+import dataHtml from "./templates/data.html";
+import docsHtml from "./templates/docs.html";
+import errorHtml from "./templates/error.html";
+import homeHtml from "./templates/home.html";
+import layoutHtml from "./templates/layout.html";
+import footerHtml from "./templates/partials/footer.html";
+import headerHtml from "./templates/partials/header.html";
+
+const partials = { header: headerHtml, footer: footerHtml };
+const helpers = { asset: assetUrl };
+
+/** Props every page gets, for the layout */
+export interface PageProps {
+  title: string;
+  /**
+   * CSP nonce for inline styles and scripts; see `securityHeaders`. Pages
+   * without one allow the layout's styles by `layoutStylesHash` instead.
+   */
+  nonce?: string;
+}
+
+/** CSP source for the layout's inline styles, for pages without a nonce */
+export const layoutStylesHash = cspHash(styles);
+
+const layout = compile<PageProps & { styles: string; content: string }>(
+  layoutHtml,
+  { name: "layout", partials, helpers }
+);
+
+/**
+ * Renders a page template inside the shared layout, with the site header,
+ * footer and styles. The page gets the same props as the layout, so it can
+ * use `nonce` for its own scripts.
+ */
+export function renderPage<Props extends PageProps>(
+  template: Template<Props>,
+  props: Props
+): string {
+  return layout({
+    title: props.title,
+    nonce: props.nonce,
+    styles,
+    content: template(props),
+  });
+}
+
+export const homePage = compile<PageProps>(homeHtml, {
+  name: "home",
+  partials,
+  helpers,
+});
+
+export interface ErrorPageProps extends PageProps {
+  status: number;
+  heading: string;
+  detail?: string;
+  requestId?: string;
+  stack?: string;
+}
+
+export const errorPage = compile<ErrorPageProps>(errorHtml, {
+  name: "error",
+  partials,
+  helpers,
+});
+
+export interface DataPageProps extends PageProps {
+  rows: { key: string; value: string }[];
+}
+
+export const dataPage = compile<DataPageProps>(dataHtml, {
+  name: "data",
+  partials,
+  helpers,
+});
+
+export interface DocsPageProps extends PageProps {
+  groups: DocsGroup[];
+}
+
+export const docsPage = compile<DocsPageProps>(docsHtml, {
+  name: "docs",
+  partials,
+  helpers,
+});
@@ -0,0 +1,8 @@
+/** @type {import('tailwindcss').Config} */
+export default {
+    content: ['./src/**/*.{ts,html}'],
+    theme: {
+        extend: {},
+    },
+    plugins: [],
+};
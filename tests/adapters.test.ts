@@ -0,0 +1,202 @@
+import type { ALBResult, APIGatewayProxyResult } from "aws-lambda";
+import { handler } from "../src/index";
+import { detectSource, toHttpRequest, toLambdaResult } from "../src/adapters";
+import type { LambdaEvent } from "../src/event";
+import { resp } from "../src/response";
+import { createMockContext, parseJsonResponse } from "./test-utils";
+import functionUrlEvent from "./fixtures/function-url.json";
+import httpApiEvent from "./fixtures/http-api.json";
+import restApiEvent from "./fixtures/rest-api.json";
+import albEvent from "./fixtures/alb.json";
+import albMultiValueEvent from "./fixtures/alb-multi-value.json";
+
+// JSON imports widen literal types, so cast the fixtures once here
+const fixtures = {
+  functionUrl: functionUrlEvent as LambdaEvent,
+  httpApi: httpApiEvent as LambdaEvent,
+  restApi: restApiEvent as LambdaEvent,
+  alb: albEvent as LambdaEvent,
+  albMultiValue: albMultiValueEvent as LambdaEvent,
+};
+
+function withCookies() {
+  const response = resp(200, "{}", "application/json");
+  response.cookies = ["a=1; Path=/", "b=2; Path=/"];
+  return response;
+}
+
+describe("Event Source Adapters", () => {
+  describe("detectSource", () => {
+    it("should recognise each recorded event shape", () => {
+      expect(detectSource(fixtures.functionUrl)).toBe("function-url");
+      expect(detectSource(fixtures.httpApi)).toBe("http-api");
+      expect(detectSource(fixtures.restApi)).toBe("rest-api");
+      expect(detectSource(fixtures.alb)).toBe("alb");
+      expect(detectSource(fixtures.albMultiValue)).toBe("alb");
+    });
+
+    it("should treat bare events as Function URL events", () => {
+      expect(detectSource({})).toBe("function-url");
+    });
+  });
+
+  describe("toHttpRequest", () => {
+    it("should normalize Function URL events", () => {
+      const request = toHttpRequest(fixtures.functionUrl);
+
+      expect(request).toMatchObject({
+        source: "function-url",
+        method: "GET",
+        path: "/api/hello/ada",
+        rawQueryString: "times=2&shout=true",
+        query: { times: "2", shout: "true" },
+        cookies: ["session=abc123", "theme=dark"],
+        requestId: "5e1c3b5a-9a1d-4c39-8f0e-1f2e3d4c5b6a",
+        sourceIp: "203.0.113.10",
+        userAgent: "curl/8.4.0",
+      });
+      expect(request.headers["cookie"]).toBe("session=abc123; theme=dark");
+    });
+
+    it("should keep base64 bodies from HTTP API events", () => {
+      const request = toHttpRequest(fixtures.httpApi);
+
+      expect(request.source).toBe("http-api");
+      expect(request.method).toBe("POST");
+      expect(request.isBase64Encoded).toBe(true);
+      expect(request.body).toBe("eyJncmVldCI6ImhpIn0=");
+    });
+
+    it("should merge REST API multi-value headers and query parameters", () => {
+      const request = toHttpRequest(fixtures.restApi);
+
+      expect(request).toMatchObject({
+        source: "rest-api",
+        method: "GET",
+        path: "/api/hello/ada",
+        query: { times: "3", tag: "a,b" },
+        requestId: "c6af9ac6-7b61-11e6-9a41-93e8deadbeef",
+        sourceIp: "192.0.2.44",
+      });
+      expect(request.headers["x-custom"]).toBe("one,two");
+      expect(request.headers["accept"]).toBe("application/json");
+      expect(request.rawQueryString).toBe("times=3&tag=a&tag=b");
+      expect(request.body).toBeUndefined();
+    });
+
+    it("should decode ALB query parameters and use forwarded headers", () => {
+      const request = toHttpRequest(fixtures.alb);
+
+      expect(request).toMatchObject({
+        source: "alb",
+        path: "/api/info",
+        query: { q: "hello world" },
+        sourceIp: "203.0.113.50",
+        userAgent: "curl/8.4.0",
+      });
+      expect(request.requestId).toBeUndefined();
+    });
+
+    it("should merge ALB multi-value query parameters", () => {
+      const request = toHttpRequest(fixtures.albMultiValue);
+
+      expect(request.query).toEqual({ tag: "a+b,c" });
+      expect(request.headers["accept"]).toBe("application/json");
+    });
+  });
+
+  describe("toLambdaResult", () => {
+    it("should return v2 responses unchanged", () => {
+      const response = withCookies();
+
+      expect(
+        toLambdaResult(toHttpRequest(fixtures.functionUrl), response)
+      ).toBe(response);
+    });
+
+    it("should move REST API cookies into multiValueHeaders", () => {
+      const result = toLambdaResult(
+        toHttpRequest(fixtures.restApi),
+        withCookies()
+      ) as APIGatewayProxyResult;
+
+      expect(result.headers!["content-type"]).toBe("application/json");
+      expect(result.multiValueHeaders).toEqual({
+        "set-cookie": ["a=1; Path=/", "b=2; Path=/"],
+      });
+      expect(result).not.toHaveProperty("cookies");
+    });
+
+    it("should add statusDescription for ALB", () => {
+      const result = toLambdaResult(
+        toHttpRequest(fixtures.alb),
+        resp(404, "{}", "application/json")
+      ) as ALBResult;
+
+      expect(result.statusDescription).toBe("404 Not Found");
+      expect(result.headers!["content-type"]).toBe("application/json");
+      expect(result.multiValueHeaders).toBeUndefined();
+    });
+
+    it("should answer ALB multi-value requests with multiValueHeaders", () => {
+      const result = toLambdaResult(
+        toHttpRequest(fixtures.albMultiValue),
+        withCookies()
+      ) as ALBResult;
+
+      expect(result.headers).toBeUndefined();
+      expect(result.multiValueHeaders).toMatchObject({
+        "content-type": ["application/json"],
+        "set-cookie": ["a=1; Path=/", "b=2; Path=/"],
+      });
+    });
+  });
+
+  describe("handler", () => {
+    it("should route REST API events by path and method", async () => {
+      const result = (await handler(fixtures.restApi)) as APIGatewayProxyResult;
+
+      expect(result.statusCode).toBe(200);
+      expect(parseJsonResponse(result)).toEqual({
+        message: "Hello, ada! Hello, ada! Hello, ada!",
+      });
+    });
+
+    it("should decode base64 bodies from HTTP API events", async () => {
+      const result = await handler(fixtures.httpApi);
+
+      expect(result.statusCode).toBe(200);
+      expect(parseJsonResponse(result)).toEqual({
+        type: "json",
+        value: { greet: "hi" },
+      });
+    });
+
+    it("should answer ALB events with statusDescription", async () => {
+      const result = (await handler(fixtures.alb)) as ALBResult;
+
+      expect(result.statusCode).toBe(200);
+      expect(result.statusDescription).toBe("200 OK");
+      expect(parseJsonResponse(result).ip).toBe("203.0.113.50");
+    });
+
+    it("should fall back to the Lambda request ID for ALB events", async () => {
+      const result = (await handler(
+        fixtures.alb,
+        createMockContext({ awsRequestId: "alb-invocation-1" })
+      )) as ALBResult;
+
+      expect(parseJsonResponse(result).requestId).toBe("alb-invocation-1");
+    });
+
+    it("should render ALB multi-value 404s as problem+json", async () => {
+      const result = (await handler(fixtures.albMultiValue)) as ALBResult;
+
+      expect(result.statusCode).toBe(404);
+      expect(result.statusDescription).toBe("404 Not Found");
+      expect(result.multiValueHeaders!["content-type"]).toEqual([
+        "application/problem+json; charset=utf-8",
+      ]);
+    });
+  });
+});
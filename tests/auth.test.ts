@@ -0,0 +1,318 @@
+import { generateKeyPairSync } from "crypto";
+import { handler } from "../src/index";
+import {
+  bearerChallenge,
+  hashApiKey,
+  requireApiKey,
+  requireAuth,
+} from "../src/auth";
+import { overrideConfig, resetConfig } from "../src/config";
+import { HttpError } from "../src/errors";
+import type { Middleware } from "../src/middleware";
+import {
+  JwtError,
+  scopesOf,
+  verifyJwt,
+  type Jwk,
+  type VerifyOptions,
+} from "../src/jwt";
+import {
+  createMockApiGatewayEvent,
+  parseJsonResponse,
+  runMiddleware,
+  signJwt,
+} from "./test-utils";
+
+const secret = "test-secret-that-is-long-enough";
+const rsa = generateKeyPairSync("rsa", { modulusLength: 2048 });
+const ec = generateKeyPairSync("ec", { namedCurve: "P-256" });
+const jwks = {
+  keys: [
+    { ...rsa.publicKey.export({ format: "jwk" }), kid: "rsa-1", use: "sig" },
+    { ...ec.publicKey.export({ format: "jwk" }), kid: "ec-1", alg: "ES256" },
+  ] as Jwk[],
+};
+
+const now = 1_700_000_000;
+const options: VerifyOptions = { secret, jwks, now, clockSkewSeconds: 30 };
+
+function hs256(claims: Record<string, unknown>) {
+  return signJwt(claims, { alg: "HS256", secret });
+}
+
+function bearer(token: string) {
+  return createMockApiGatewayEvent({
+    rawPath: "/api/me",
+    headers: { authorization: `Bearer ${token}` },
+  });
+}
+
+/** Runs a middleware and returns the HttpError it threw */
+async function authError(
+  middleware: Middleware,
+  event = createMockApiGatewayEvent()
+): Promise<HttpError> {
+  try {
+    await runMiddleware(middleware, event);
+  } catch (err) {
+    if (err instanceof HttpError) return err;
+    throw err;
+  }
+  throw new Error("expected the middleware to refuse the request");
+}
+
+describe("Authentication", () => {
+  describe("verifyJwt", () => {
+    it("should accept HS256 tokens signed with the shared secret", () => {
+      expect(verifyJwt(hs256({ sub: "u1" }), options)).toEqual({ sub: "u1" });
+    });
+
+    it("should accept RS256 and ES256 tokens from the JWKS", () => {
+      const rs = signJwt(
+        { sub: "rsa" },
+        { alg: "RS256", privateKey: rsa.privateKey, kid: "rsa-1" }
+      );
+      const es = signJwt(
+        { sub: "ec" },
+        { alg: "ES256", privateKey: ec.privateKey }
+      );
+
+      expect(verifyJwt(rs, options).sub).toBe("rsa");
+      expect(verifyJwt(es, options).sub).toBe("ec");
+    });
+
+    it("should reject tampered tokens and unknown keys", () => {
+      const [header, , signature] = hs256({ sub: "u1" }).split(".");
+      const forged = Buffer.from('{"sub":"admin"}').toString("base64url");
+      const unknownKid = signJwt(
+        { sub: "rsa" },
+        { alg: "RS256", privateKey: rsa.privateKey, kid: "rsa-2" }
+      );
+
+      expect(() =>
+        verifyJwt(`${header}.${forged}.${signature}`, options)
+      ).toThrow("Invalid token signature");
+      expect(() => verifyJwt(unknownKid, options)).toThrow(
+        'No RS256 key with id "rsa-2"'
+      );
+    });
+
+    it("should refuse alg none and HS256 without a secret", () => {
+      const encode = (value: object) =>
+        Buffer.from(JSON.stringify(value)).toString("base64url");
+      const unsigned = `${encode({ alg: "none" })}.${encode({ sub: "x" })}.x`;
+
+      expect(() => verifyJwt(unsigned, options)).toThrow(
+        'Unsupported algorithm "none"'
+      );
+      expect(() =>
+        verifyJwt(hs256({}), { ...options, secret: undefined })
+      ).toThrow("HS256 tokens are not accepted");
+    });
+
+    it("should reject malformed tokens", () => {
+      expect(() => verifyJwt("abc", options)).toThrow(JwtError);
+      expect(() => verifyJwt("a.b.c", options)).toThrow(
+        "Token header is not a JSON object"
+      );
+    });
+
+    it("should check exp and nbf with the clock skew", () => {
+      expect(() => verifyJwt(hs256({ exp: now - 10 }), options)).not.toThrow();
+      expect(() => verifyJwt(hs256({ exp: now - 30 }), options)).toThrow(
+        "Token has expired"
+      );
+      expect(() => verifyJwt(hs256({ nbf: now + 30 }), options)).not.toThrow();
+      expect(() => verifyJwt(hs256({ nbf: now + 31 }), options)).toThrow(
+        "Token is not yet valid"
+      );
+    });
+
+    it("should check the issuer and audience when configured", () => {
+      const strict = {
+        ...options,
+        issuer: "https://issuer.example",
+        audience: ["api", "admin"],
+      };
+
+      expect(() =>
+        verifyJwt(
+          hs256({ iss: "https://issuer.example", aud: ["other", "api"] }),
+          strict
+        )
+      ).not.toThrow();
+      expect(() =>
+        verifyJwt(hs256({ iss: "https://evil.example", aud: "api" }), strict)
+      ).toThrow("Unexpected token issuer");
+      expect(() =>
+        verifyJwt(hs256({ iss: "https://issuer.example" }), strict)
+      ).toThrow("Token is not intended for this audience");
+    });
+  });
+
+  describe("scopesOf", () => {
+    it("should read space-separated scope or an scp array", () => {
+      expect(scopesOf({ scope: "read write" })).toEqual(["read", "write"]);
+      expect(scopesOf({ scp: ["read"] })).toEqual(["read"]);
+      expect(scopesOf({})).toEqual([]);
+    });
+  });
+
+  describe("requireAuth", () => {
+    beforeEach(() => {
+      overrideConfig({ auth: { secret, jwks } });
+    });
+    afterEach(() => {
+      resetConfig();
+    });
+
+    it("should answer 401 with a challenge when the token is missing", async () => {
+      const err = await authError(requireAuth());
+
+      expect(err.status).toBe(401);
+      expect(err.headers["www-authenticate"]).toBe('Bearer realm="api"');
+    });
+
+    it("should answer 401 with invalid_token for bad tokens", async () => {
+      const expired = hs256({ exp: Math.floor(Date.now() / 1000) - 3600 });
+      const err = await authError(requireAuth(), bearer(expired));
+
+      expect(err.status).toBe(401);
+      expect(err.headers["www-authenticate"]).toBe(
+        'Bearer realm="api", error="invalid_token", ' +
+          'error_description="Token has expired"'
+      );
+    });
+
+    it("should answer 403 when a required scope is missing", async () => {
+      const err = await authError(
+        requireAuth({ scopes: ["items:write"] }),
+        bearer(hs256({ scope: "items:read" }))
+      );
+
+      expect(err.status).toBe(403);
+      expect(err.detail).toBe("Missing scope: items:write");
+      expect(err.headers["www-authenticate"]).toBe(
+        'Bearer realm="api", error="insufficient_scope", scope="items:write"'
+      );
+    });
+
+    it("should put the verified claims on the request", async () => {
+      const { request, calledNext } = await runMiddleware(
+        requireAuth({ scopes: ["items:read"] }),
+        bearer(hs256({ sub: "u1", scope: "items:read items:write" }))
+      );
+
+      expect(calledNext).toBe(true);
+      expect(request.auth).toEqual({
+        sub: "u1",
+        scope: "items:read items:write",
+      });
+    });
+  });
+
+  describe("requireApiKey", () => {
+    beforeEach(() => {
+      overrideConfig({
+        auth: {
+          apiKeys: [
+            { name: "reporting", hash: hashApiKey("k-reporting") },
+            { name: "billing", hash: hashApiKey("k-billing") },
+          ],
+        },
+      });
+    });
+    afterEach(() => {
+      resetConfig();
+    });
+
+    function withKey(key: string) {
+      return createMockApiGatewayEvent({ headers: { "x-api-key": key } });
+    }
+
+    it("should hash keys as hex SHA-256", () => {
+      expect(hashApiKey("abc")).toBe(
+        "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"
+      );
+    });
+
+    it("should name the matching key on the request", async () => {
+      const { request, calledNext } = await runMiddleware(
+        requireApiKey(),
+        withKey("k-billing")
+      );
+
+      expect(calledNext).toBe(true);
+      expect(request.apiKey).toBe("billing");
+    });
+
+    it("should answer 401 for missing or unknown keys", async () => {
+      const missing = await authError(requireApiKey());
+      const unknown = await authError(requireApiKey(), withKey("k-other"));
+
+      expect(missing.status).toBe(401);
+      expect(missing.detail).toBe("An API key is required");
+      expect(unknown.detail).toBe("Invalid API key");
+      expect(unknown.headers["www-authenticate"]).toBe('ApiKey realm="api"');
+    });
+
+    it("should let keyless requests through when optional", async () => {
+      const { request, calledNext } = await runMiddleware(
+        requireApiKey({ optional: true })
+      );
+
+      expect(calledNext).toBe(true);
+      expect(request.apiKey).toBeUndefined();
+      await expect(
+        runMiddleware(requireApiKey({ optional: true }), withKey("nope"))
+      ).rejects.toMatchObject({ status: 401 });
+    });
+  });
+
+  describe("bearerChallenge", () => {
+    it("should quote and escape parameters", () => {
+      expect(bearerChallenge({ error_description: 'say "hi"' })).toBe(
+        'Bearer realm="api", error_description="say \\"hi\\""'
+      );
+    });
+  });
+
+  describe("handler", () => {
+    beforeEach(() => {
+      overrideConfig({ auth: { secret } });
+    });
+    afterEach(() => {
+      resetConfig();
+    });
+
+    it("should protect /api/me with a problem+json 401", async () => {
+      const result = await handler(
+        createMockApiGatewayEvent({ rawPath: "/api/me" })
+      );
+
+      expect(result.statusCode).toBe(401);
+      expect(result.headers!["www-authenticate"]).toBe('Bearer realm="api"');
+      expect(parseJsonResponse(result).detail).toBe(
+        "A bearer token is required"
+      );
+    });
+
+    it("should return the caller's claims for a valid token", async () => {
+      const result = await handler(bearer(hs256({ sub: "u1" })));
+
+      expect(result.statusCode).toBe(200);
+      expect(parseJsonResponse(result)).toEqual({
+        subject: "u1",
+        claims: { sub: "u1" },
+      });
+    });
+
+    it("should leave public routes alone", async () => {
+      const result = await handler(
+        createMockApiGatewayEvent({ rawPath: "/api/info" })
+      );
+
+      expect(result.statusCode).toBe(200);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { handler } from "../src/index";
+import { parseBody } from "../src/body";
+import { UnsupportedMediaTypeError } from "../src/errors";
+import { toHttpRequest } from "../src/adapters";
+import {
+  createMockApiGatewayEvent,
+  createMockRequest,
+  parseJsonResponse,
+  presets,
+} from "./test-utils";
+
+function eventWith(
+  body: string,
+  contentType?: string,
+  isBase64Encoded = false
+) {
+  return createMockRequest({
+    method: "POST",
+    body,
+    isBase64Encoded,
+    headers: contentType ? { "content-type": contentType } : {},
+  });
+}
+
+describe("Body Parsing", () => {
+  describe("parseBody", () => {
+    it("should report no body for empty requests", () => {
+      expect(parseBody(createMockRequest())).toEqual({ type: "none" });
+    });
+
+    it("should parse JSON bodies", () => {
+      const request = toHttpRequest(
+        presets.postRequest("/api/echo", '{"data": "value"}')
+      );
+
+      expect(parseBody(request)).toEqual({
+        type: "json",
+        value: { data: "value" },
+      });
+    });
+
+    it("should parse +json media types and ignore parameters", () => {
+      const event = eventWith(
+        "[1,2]",
+        "application/merge-patch+json; charset=utf-8"
+      );
+
+      expect(parseBody(event)).toEqual({ type: "json", value: [1, 2] });
+    });
+
+    it("should parse form bodies, collecting repeated keys", () => {
+      const event = eventWith(
+        "name=Ada+Lovelace&tag=a&tag=b",
+        "application/x-www-form-urlencoded"
+      );
+
+      expect(parseBody(event)).toEqual({
+        type: "form",
+        value: { name: "Ada Lovelace", tag: ["a", "b"] },
+      });
+    });
+
+    it("should parse plain text bodies", () => {
+      expect(parseBody(eventWith("hello", "text/plain"))).toEqual({
+        type: "text",
+        value: "hello",
+      });
+    });
+
+    it("should decode base64 bodies from Function URLs", () => {
+      const encoded = Buffer.from('{"ok":true}').toString("base64");
+      const event = eventWith(encoded, "application/json", true);
+
+      expect(parseBody(event)).toEqual({ type: "json", value: { ok: true } });
+    });
+
+    it("should look up the content type case-insensitively", () => {
+      const event = createMockApiGatewayEvent({ method: "POST", body: "hi" });
+      event.headers["Content-Type"] = "text/plain";
+
+      expect(parseBody(toHttpRequest(event))).toEqual({
+        type: "text",
+        value: "hi",
+      });
+    });
+
+    it("should reject malformed JSON with 400", () => {
+      expect(() => parseBody(eventWith("{nope", "application/json"))).toThrow(
+        expect.objectContaining({ status: 400 })
+      );
+    });
+
+    it("should reject unsupported content types with 415", () => {
+      expect(() => parseBody(eventWith("<x/>", "application/xml"))).toThrow(
+        UnsupportedMediaTypeError
+      );
+      expect(() => parseBody(eventWith("<x/>", "application/xml"))).toThrow(
+        expect.objectContaining({ status: 415 })
+      );
+      expect(() => parseBody(eventWith("raw"))).toThrow(
+        expect.objectContaining({ status: 415 })
+      );
+    });
+
+    it("should enforce the maximum body size on decoded bytes", () => {
+      const event = eventWith("x".repeat(11), "text/plain");
+
+      expect(() => parseBody(event, { maxBytes: 10 })).toThrow(
+        expect.objectContaining({ status: 413 })
+      );
+      expect(parseBody(event, { maxBytes: 11 })).toEqual({
+        type: "text",
+        value: "x".repeat(11),
+      });
+    });
+  });
+
+  describe("POST /api/echo", () => {
+    it("should echo the parsed body back", async () => {
+      const event = presets.postRequest("/api/echo", '{"data": "value"}');
+      const result = await handler(event);
+
+      expect(result.statusCode).toBe(200);
+      expect(parseJsonResponse(result)).toEqual({
+        type: "json",
+        value: { data: "value" },
+      });
+    });
+
+    it("should return 400 for malformed JSON", async () => {
+      const event = presets.postRequest("/api/echo", "{broken");
+      const result = await handler(event);
+
+      expect(result.statusCode).toBe(400);
+      expect(parseJsonResponse(result).detail).toContain("Malformed JSON");
+    });
+
+    it("should return 415 for unsupported content types", async () => {
+      const event = presets.postRequest("/api/echo", "<x/>", {
+        headers: { "content-type": "application/xml" },
+      });
+      const result = await handler(event);
+
+      expect(result.statusCode).toBe(415);
+    });
+  });
+
+  describe("GET /api/info", () => {
+    it("should ignore a body the route does not take", async () => {
+      const result = await handler(
+        createMockApiGatewayEvent({
+          rawPath: "/api/info",
+          body: "<x/>",
+          headers: { "content-type": "application/xml" },
+        })
+      );
+
+      expect(result.statusCode).toBe(200);
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { handler } from "../src/index";
+import {
+  applyCachePolicy,
+  cacheControl,
+  computeEtag,
+  conditional,
+} from "../src/cache";
+import { overrideConfig } from "../src/config";
+import { resp } from "../src/response";
+import {
+  createMockApiGatewayEvent,
+  createMockRequest,
+  presets,
+} from "./test-utils";
+
+function withHeaders(headers: Record<string, string>, method = "GET") {
+  return createMockRequest({ method, headers });
+}
+
+describe("Caching", () => {
+  describe("cacheControl", () => {
+    it("should render each policy type", () => {
+      expect(cacheControl({ type: "no-store" })).toBe("no-store");
+      expect(cacheControl({ type: "private", maxAge: 60 })).toBe(
+        "private, max-age=60"
+      );
+      expect(cacheControl({ type: "public", maxAge: 60, sMaxAge: 600 })).toBe(
+        "public, max-age=60, s-maxage=600"
+      );
+      expect(
+        cacheControl({ type: "public", maxAge: 31536000, immutable: true })
+      ).toBe("public, max-age=31536000, immutable");
+    });
+
+    it("should require revalidation when nothing may be served stale", () => {
+      expect(cacheControl({ type: "private" })).toBe(
+        "private, max-age=0, must-revalidate"
+      );
+    });
+  });
+
+  describe("applyCachePolicy", () => {
+    it("should add a strong ETag derived from the body", () => {
+      const a = applyCachePolicy(resp(200, "hello", "text/plain"), {
+        type: "public",
+        maxAge: 60,
+      });
+      const b = applyCachePolicy(resp(200, "hello!", "text/plain"), {
+        type: "public",
+        maxAge: 60,
+      });
+
+      expect(a.headers!["etag"]).toBe(computeEtag("hello"));
+      expect(a.headers!["etag"]).toMatch(/^"[^W]/);
+      expect(a.headers!["etag"]).not.toBe(b.headers!["etag"]);
+    });
+
+    it("should not tag error responses", () => {
+      const result = applyCachePolicy(resp(404, "{}", "application/json"), {
+        type: "no-store",
+      });
+
+      expect(result.headers).not.toHaveProperty("etag");
+    });
+
+    it("should hash the decoded bytes of base64 bodies", () => {
+      const body = Buffer.from("hello").toString("base64");
+
+      expect(computeEtag(body, true)).toBe(computeEtag("hello"));
+    });
+  });
+
+  describe("conditional", () => {
+    const lastModified = new Date("2024-01-01T00:00:00Z");
+    const cached = applyCachePolicy(resp(200, "hello", "text/plain"), {
+      type: "public",
+      maxAge: 60,
+      lastModified,
+    });
+    const etag = String(cached.headers!["etag"]);
+
+    it("should return 304 with no body when the ETag matches", () => {
+      const result = conditional(
+        withHeaders({ "if-none-match": `"other", W/${etag}` }),
+        cached
+      );
+
+      expect(result.statusCode).toBe(304);
+      expect(result.body).toBe("");
+      expect(result.headers).toEqual({
+        "cache-control": "public, max-age=60",
+        etag,
+        "last-modified": lastModified.toUTCString(),
+      });
+    });
+
+    it("should serve the full response when the ETag differs", () => {
+      const event = withHeaders({ "if-none-match": '"stale"' });
+
+      expect(conditional(event, cached)).toBe(cached);
+    });
+
+    it("should let If-None-Match win over If-Modified-Since", () => {
+      const event = withHeaders({
+        "if-none-match": '"stale"',
+        "if-modified-since": new Date().toUTCString(),
+      });
+
+      expect(conditional(event, cached).statusCode).toBe(200);
+    });
+
+    it("should honour If-Modified-Since", () => {
+      const fresh = withHeaders({
+        "if-modified-since": lastModified.toUTCString(),
+      });
+      const stale = withHeaders({
+        "if-modified-since": new Date("2023-12-31T00:00:00Z").toUTCString(),
+      });
+
+      expect(conditional(fresh, cached).statusCode).toBe(304);
+      expect(conditional(stale, cached).statusCode).toBe(200);
+    });
+
+    it("should ignore conditional headers on unsafe methods", () => {
+      const event = withHeaders({ "if-none-match": "*" }, "POST");
+
+      expect(conditional(event, cached)).toBe(cached);
+    });
+  });
+
+  describe("handler", () => {
+    // The greeting is the same every time
+    function hello(headers: Record<string, string> = {}) {
+      return createMockApiGatewayEvent({
+        rawPath: "/api/hello/world",
+        queryStringParameters: { times: "5" },
+        headers,
+      });
+    }
+
+    it("should answer a repeat request with 304", async () => {
+      const first = await handler(hello());
+      const repeat = await handler(
+        hello({ "if-none-match": String(first.headers!["etag"]) })
+      );
+
+      expect(repeat.statusCode).toBe(304);
+      expect(repeat.body).toBe("");
+      expect(repeat.headers!["access-control-allow-origin"]).toBe("*");
+    });
+
+    it("should give each content encoding its own ETag", async () => {
+      const restore = overrideConfig({ compression: { threshold: 0 } });
+      try {
+        const plain = await handler(hello());
+        const gzip = await handler(hello({ "accept-encoding": "gzip" }));
+
+        expect(gzip.headers!["etag"]).toBe(
+          String(plain.headers!["etag"]).replace(/"$/, '-gzip"')
+        );
+
+        const repeat = await handler(
+          hello({
+            "accept-encoding": "gzip",
+            "if-none-match": String(gzip.headers!["etag"]),
+          })
+        );
+        expect(repeat.statusCode).toBe(304);
+      } finally {
+        restore();
+      }
+    });
+
+    it("should keep API responses uncacheable", async () => {
+      const result = await handler(presets.apiInfo());
+
+      expect(result.headers!["cache-control"]).toBe("no-store");
+    });
+  });
+});
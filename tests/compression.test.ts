@@ -0,0 +1,134 @@
+import { brotliDecompressSync, gunzipSync } from "zlib";
+import { handler } from "../src/index";
+import { overrideConfig, resetConfig } from "../src/config";
+import { compress, isCompressible, selectEncoding } from "../src/compression";
+import { resp } from "../src/response";
+import { createMockRequest, presets } from "./test-utils";
+
+const bigJson = JSON.stringify({ items: "x".repeat(4096) });
+
+function acceptingEncoding(acceptEncoding: string) {
+  return createMockRequest({
+    headers: { "accept-encoding": acceptEncoding },
+  });
+}
+
+describe("Response Compression", () => {
+  describe("selectEncoding", () => {
+    it("should prefer brotli over gzip", () => {
+      expect(selectEncoding("gzip, deflate, br")).toBe("br");
+    });
+
+    it("should honour q-values and wildcards", () => {
+      expect(selectEncoding("br;q=0.1, gzip")).toBe("gzip");
+      expect(selectEncoding("br;q=0, *")).toBe("gzip");
+      expect(selectEncoding("identity")).toBeUndefined();
+      expect(selectEncoding(undefined)).toBeUndefined();
+    });
+  });
+
+  describe("isCompressible", () => {
+    it("should accept text-like content types", () => {
+      expect(isCompressible("text/html; charset=utf-8")).toBe(true);
+      expect(isCompressible("application/json")).toBe(true);
+      expect(isCompressible("application/problem+json")).toBe(true);
+      expect(isCompressible("image/svg+xml")).toBe(true);
+    });
+
+    it("should skip already-compressed formats", () => {
+      expect(isCompressible("image/png")).toBe(false);
+      expect(isCompressible("application/zip")).toBe(false);
+      expect(isCompressible(undefined)).toBe(false);
+    });
+  });
+
+  describe("compress", () => {
+    it("should gzip and base64 encode large bodies", () => {
+      const result = compress(
+        acceptingEncoding("gzip"),
+        resp(200, bigJson, "application/json")
+      );
+
+      expect(result.isBase64Encoded).toBe(true);
+      expect(result.headers!["content-encoding"]).toBe("gzip");
+      expect(result.headers!["vary"]).toBe("Accept-Encoding");
+      expect(gunzipSync(Buffer.from(result.body!, "base64")).toString()).toBe(
+        bigJson
+      );
+    });
+
+    it("should use brotli when accepted", () => {
+      const result = compress(
+        acceptingEncoding("gzip, br"),
+        resp(200, bigJson, "application/json")
+      );
+
+      expect(result.headers!["content-encoding"]).toBe("br");
+      expect(
+        brotliDecompressSync(Buffer.from(result.body!, "base64")).toString()
+      ).toBe(bigJson);
+    });
+
+    it("should leave small bodies alone", () => {
+      const small = resp(200, "{}", "application/json");
+
+      expect(compress(acceptingEncoding("gzip"), small)).toBe(small);
+    });
+
+    it("should respect a custom threshold", () => {
+      const result = compress(
+        acceptingEncoding("gzip"),
+        resp(200, "{}", "application/json"),
+        { threshold: 0 }
+      );
+
+      expect(result.headers!["content-encoding"]).toBe("gzip");
+    });
+
+    it("should skip content types that are already compressed", () => {
+      const png = resp(200, "x".repeat(4096), "image/png");
+
+      expect(compress(acceptingEncoding("gzip"), png)).toBe(png);
+    });
+
+    it("should still vary on Accept-Encoding when the client refuses", () => {
+      const result = compress(
+        acceptingEncoding("identity"),
+        resp(200, bigJson, "application/json")
+      );
+
+      expect(result.body).toBe(bigJson);
+      expect(result.isBase64Encoded).toBeUndefined();
+      expect(result.headers!["vary"]).toBe("Accept-Encoding");
+    });
+  });
+
+  describe("handler", () => {
+    afterEach(() => {
+      resetConfig();
+    });
+
+    it("should compress the landing page for clients that accept it", async () => {
+      const result = await handler(
+        presets.rootPage({ headers: { "accept-encoding": "gzip" } })
+      );
+
+      expect(result.statusCode).toBe(200);
+      expect(result.isBase64Encoded).toBe(true);
+      expect(result.headers!["content-encoding"]).toBe("gzip");
+      expect(
+        gunzipSync(Buffer.from(result.body!, "base64")).toString()
+      ).toContain("<!doctype html>");
+    });
+
+    it("should not compress when disabled in config", async () => {
+      overrideConfig({ compression: { enabled: false } });
+      const result = await handler(
+        presets.rootPage({ headers: { "accept-encoding": "gzip" } })
+      );
+
+      expect(result.headers).not.toHaveProperty("content-encoding");
+      expect(result.body).toContain("<!doctype html>");
+    });
+  });
+});
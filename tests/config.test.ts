@@ -0,0 +1,199 @@
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  ConfigError,
+  config,
+  loadConfig,
+  overrideConfig,
+  readConfigFile,
+  resetConfig,
+} from "../src/config";
+import { hashApiKey } from "../src/auth";
+import { handler } from "../src/index";
+import { createMockApiGatewayEvent } from "./test-utils";
+
+function issuesOf(load: () => unknown): string[] {
+  try {
+    load();
+  } catch (err) {
+    expect(err).toBeInstanceOf(ConfigError);
+    return (err as ConfigError).issues.map(
+      (issue) => `${issue.field}: ${issue.message}`
+    );
+  }
+  throw new Error("expected a ConfigError");
+}
+
+describe("Configuration", () => {
+  describe("loadConfig", () => {
+    it("should use the defaults without any settings", () => {
+      const loaded = loadConfig({});
+
+      expect(loaded.cors.origins).toEqual(["*"]);
+      expect(loaded.compression).toEqual({ enabled: true, threshold: 1024 });
+      expect(loaded.auth.secret).toBeUndefined();
+      expect(loaded.log.level).toBe("info");
+      expect(loaded.security.hsts).toEqual({
+        maxAge: 31536000,
+        includeSubDomains: true,
+        preload: false,
+      });
+    });
+
+    it("should convert environment variables to the declared types", () => {
+      const hash = hashApiKey("k-1");
+      const loaded = loadConfig({
+        CORS_ORIGINS: " https://a.example , https://b.example ",
+        CORS_MAX_AGE: "60",
+        COMPRESSION: "false",
+        LOG_LEVEL: "WARN",
+        API_KEYS: `reporting:${hash.toUpperCase()}`,
+        RATE_LIMIT_REFILL: "0.5",
+        HSTS_PRELOAD: "true",
+        JWT_SECRET: "",
+      });
+
+      expect(loaded.cors.origins).toEqual([
+        "https://a.example",
+        "https://b.example",
+      ]);
+      expect(loaded.cors.maxAge).toBe(60);
+      expect(loaded.compression.enabled).toBe(false);
+      expect(loaded.log.level).toBe("warn");
+      expect(loaded.auth.apiKeys).toEqual([{ name: "reporting", hash }]);
+      expect(loaded.rateLimit.refillPerSecond).toBe(0.5);
+      expect(loaded.security.hsts).toMatchObject({
+        maxAge: 31536000,
+        preload: true,
+      });
+      expect(loaded.auth.secret).toBeUndefined();
+    });
+
+    it("should let the environment override the config file", () => {
+      const loaded = loadConfig(
+        { METRICS_NAMESPACE: "FromEnv" },
+        {
+          metrics: { namespace: "FromFile", service: "orders" },
+          security: { hsts: false },
+        }
+      );
+
+      expect(loaded.metrics).toEqual({
+        enabled: true,
+        namespace: "FromEnv",
+        service: "orders",
+      });
+      expect(loaded.security.hsts).toBe(false);
+    });
+
+    it("should list every bad setting with its variable", () => {
+      expect(
+        issuesOf(() =>
+          loadConfig(
+            {
+              CORS_MAX_AGE: "soon",
+              LOG_LEVEL: "verbose",
+              API_KEYS: "reporting:abc",
+              JWT_JWKS: "{not json",
+            },
+            { rateLimit: { capacity: 0 } }
+          )
+        )
+      ).toEqual([
+        expect.stringMatching(/^auth\.jwks \(JWT_JWKS\): /),
+        "cors.maxAge (CORS_MAX_AGE): expected number, got string",
+        "log.level (LOG_LEVEL): must be one of debug, info, warn, error, silent",
+        "auth.apiKeys[0].hash (API_KEYS): must match /^[0-9a-f]{64}$/",
+        "rateLimit.capacity: must be >= 1",
+      ]);
+    });
+
+    it("should only turn on debug for DEBUG=true", () => {
+      expect(loadConfig({ DEBUG: "true" }).debug).toBe(true);
+      expect(loadConfig({ DEBUG: "*" }).debug).toBe(false);
+      expect(loadConfig({ DEBUG: "express:*" }).debug).toBe(false);
+    });
+
+    it("should reject a refill rate that is not positive", () => {
+      expect(issuesOf(() => loadConfig({ RATE_LIMIT_REFILL: "0" }))).toEqual([
+        "rateLimit.refillPerSecond (RATE_LIMIT_REFILL): must be > 0",
+      ]);
+    });
+
+    it("should reject a config file that is not an object", () => {
+      expect(issuesOf(() => loadConfig({}, ["debug"]))).toContain(
+        "config file: must be a JSON object"
+      );
+    });
+
+    it("should freeze the result", () => {
+      const loaded = loadConfig({});
+
+      expect(Object.isFrozen(loaded)).toBe(true);
+      expect(Object.isFrozen(loaded.cors.origins)).toBe(true);
+      expect(() => {
+        (loaded.cors as { maxAge: number }).maxAge = 1;
+      }).toThrow(TypeError);
+    });
+  });
+
+  describe("readConfigFile", () => {
+    const dir = mkdtempSync(join(tmpdir(), "config-"));
+
+    it("should read a JSON file, or nothing when it is missing", () => {
+      const path = join(dir, "config.json");
+      writeFileSync(path, '{"debug":true}');
+
+      expect(readConfigFile(path)).toEqual({ debug: true });
+      expect(readConfigFile(join(dir, "missing.json"))).toBeUndefined();
+    });
+
+    it("should fail on invalid JSON", () => {
+      const path = join(dir, "broken.json");
+      writeFileSync(path, "{");
+
+      expect(() => readConfigFile(path)).toThrow(ConfigError);
+    });
+  });
+
+  describe("overrideConfig", () => {
+    afterEach(() => {
+      resetConfig();
+    });
+
+    it("should replace settings and restore the previous ones", () => {
+      const before = config;
+      const restore = overrideConfig({ cors: { maxAge: 5 } });
+
+      expect(config.cors.maxAge).toBe(5);
+      expect(config.cors.origins).toEqual(before.cors.origins);
+      expect(Object.isFrozen(config.cors)).toBe(true);
+
+      restore();
+      expect(config).toBe(before);
+    });
+
+    it("should refuse invalid overrides", () => {
+      expect(() => overrideConfig({ rateLimit: { capacity: -1 } })).toThrow(
+        ConfigError
+      );
+    });
+  });
+
+  describe("handler", () => {
+    afterEach(() => {
+      resetConfig();
+    });
+
+    it("should see overrides on the next request", async () => {
+      overrideConfig({ security: { referrerPolicy: "same-origin" } });
+
+      const result = await handler(
+        createMockApiGatewayEvent({ rawPath: "/healthz" })
+      );
+
+      expect(result.headers!["referrer-policy"]).toBe("same-origin");
+    });
+  });
+});
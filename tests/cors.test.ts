@@ -0,0 +1,270 @@
+import { handler } from "../src/index";
+import { overrideConfig, resetConfig } from "../src/config";
+import {
+  allowedOrigin,
+  applyCors,
+  cors,
+  isPreflight,
+  originMatches,
+  preflightResponse,
+  type CorsPolicy,
+} from "../src/cors";
+import { resp } from "../src/response";
+import { toHttpRequest } from "../src/adapters";
+import {
+  createMockApiGatewayEvent,
+  createMockRequest,
+  runMiddleware,
+} from "./test-utils";
+
+const policy: CorsPolicy = {
+  origins: ["https://app.example.com", "https://*.example.org"],
+  methods: ["GET", "POST"],
+  allowedHeaders: ["content-type", "authorization"],
+  exposedHeaders: ["x-request-id"],
+  credentials: true,
+  maxAge: 300,
+};
+
+function preflightEvent(origin: string, headers: Record<string, string> = {}) {
+  return createMockApiGatewayEvent({
+    rawPath: "/api/info",
+    method: "OPTIONS",
+    headers: {
+      origin,
+      "access-control-request-method": "GET",
+      ...headers,
+    },
+  });
+}
+
+function preflight(origin: string, headers: Record<string, string> = {}) {
+  return toHttpRequest(preflightEvent(origin, headers));
+}
+
+describe("CORS", () => {
+  describe("origin matching", () => {
+    it("should match exact origins case-insensitively", () => {
+      expect(
+        originMatches("https://app.example.com", "https://APP.example.com")
+      ).toBe(true);
+      expect(
+        originMatches("https://app.example.com", "http://app.example.com")
+      ).toBe(false);
+    });
+
+    it("should match wildcard subdomains but not the bare domain", () => {
+      expect(
+        originMatches("https://*.example.org", "https://a.example.org")
+      ).toBe(true);
+      expect(
+        originMatches("https://*.example.org", "https://a.b.example.org")
+      ).toBe(true);
+      expect(
+        originMatches("https://*.example.org", "https://example.org")
+      ).toBe(false);
+      expect(
+        originMatches("https://*.example.org", "https://evil.com/.example.org")
+      ).toBe(false);
+    });
+
+    it("should reflect allowed origins and reject others", () => {
+      expect(allowedOrigin(policy, "https://app.example.com")).toBe(
+        "https://app.example.com"
+      );
+      expect(allowedOrigin(policy, "https://evil.example.com")).toBeUndefined();
+      expect(allowedOrigin(policy, undefined)).toBeUndefined();
+    });
+
+    it("should only answer * when credentials are off", () => {
+      const open = { ...policy, origins: ["*"], credentials: false };
+
+      expect(allowedOrigin(open, undefined)).toBe("*");
+      expect(
+        allowedOrigin({ ...open, credentials: true }, "https://x.io")
+      ).toBe("https://x.io");
+    });
+  });
+
+  describe("applyCors", () => {
+    it("should reflect the origin with credentials and Vary", () => {
+      const request = createMockRequest({
+        headers: { origin: "https://app.example.com" },
+      });
+      const result = applyCors(
+        policy,
+        request,
+        resp(200, "{}", "application/json")
+      );
+
+      expect(result.headers).toMatchObject({
+        "access-control-allow-origin": "https://app.example.com",
+        "access-control-allow-credentials": "true",
+        "access-control-expose-headers": "x-request-id",
+        vary: "Origin",
+      });
+    });
+
+    it("should not add allow headers for unknown origins", () => {
+      const request = createMockRequest({
+        headers: { origin: "https://evil.com" },
+      });
+      const result = applyCors(
+        policy,
+        request,
+        resp(200, "{}", "application/json")
+      );
+
+      expect(result.headers).not.toHaveProperty("access-control-allow-origin");
+      expect(result.headers!["vary"]).toBe("Origin");
+    });
+
+    it("should merge with an existing Vary header", () => {
+      const base = resp(200, "{}", "application/json");
+      base.headers!["vary"] = "Accept";
+      const request = createMockRequest({
+        headers: { origin: "https://app.example.com" },
+      });
+
+      expect(applyCors(policy, request, base).headers!["vary"]).toBe(
+        "Accept, Origin"
+      );
+    });
+  });
+
+  describe("preflight", () => {
+    it("should only treat OPTIONS with Origin and request method as preflight", () => {
+      expect(isPreflight(preflight("https://app.example.com"))).toBe(true);
+      expect(isPreflight(createMockRequest({ method: "OPTIONS" }))).toBe(false);
+    });
+
+    it("should answer allowed origins with 204 and the policy", () => {
+      const result = preflightResponse(
+        policy,
+        preflight("https://a.example.org")
+      );
+
+      expect(result.statusCode).toBe(204);
+      expect(result.body).toBe("");
+      expect(result.headers).toEqual({
+        "access-control-allow-origin": "https://a.example.org",
+        "access-control-allow-methods": "GET, POST",
+        "access-control-allow-headers": "content-type, authorization",
+        "access-control-allow-credentials": "true",
+        "access-control-max-age": "300",
+        vary: "Origin",
+      });
+    });
+
+    it("should echo requested headers when any header is allowed", () => {
+      const result = preflightResponse(
+        { ...policy, allowedHeaders: ["*"] },
+        preflight("https://app.example.com", {
+          "access-control-request-headers": "x-custom, content-type",
+        })
+      );
+
+      expect(result.headers!["access-control-allow-headers"]).toBe(
+        "x-custom, content-type"
+      );
+    });
+
+    it("should reject origins that are not allowed", () => {
+      expect(() =>
+        preflightResponse(policy, preflight("https://evil.com"))
+      ).toThrow(expect.objectContaining({ status: 403 }));
+    });
+  });
+
+  describe("cors middleware", () => {
+    it("should answer preflights without calling next()", async () => {
+      const { result, calledNext } = await runMiddleware(
+        cors(policy),
+        preflightEvent("https://app.example.com")
+      );
+
+      expect(calledNext).toBe(false);
+      expect(result.statusCode).toBe(204);
+      expect(result.headers!["access-control-allow-methods"]).toBe("GET, POST");
+    });
+
+    it("should add headers to downstream responses", async () => {
+      const { result, calledNext } = await runMiddleware(
+        cors(policy),
+        createMockApiGatewayEvent({
+          headers: { origin: "https://app.example.com" },
+        }),
+        resp(404, "{}", "application/problem+json")
+      );
+
+      expect(calledNext).toBe(true);
+      expect(result.statusCode).toBe(404);
+      expect(result.headers!["access-control-allow-origin"]).toBe(
+        "https://app.example.com"
+      );
+    });
+
+    it("should read the policy per request when given a function", async () => {
+      let current = policy;
+      const middleware = cors(() => current);
+      const event = createMockApiGatewayEvent({
+        headers: { origin: "https://other.dev" },
+      });
+
+      const before = await runMiddleware(middleware, event);
+      current = { ...policy, origins: ["*"], credentials: false };
+      const after = await runMiddleware(middleware, event);
+
+      expect(before.result.headers).not.toHaveProperty(
+        "access-control-allow-origin"
+      );
+      expect(after.result.headers!["access-control-allow-origin"]).toBe("*");
+    });
+  });
+
+  describe("handler", () => {
+    afterEach(() => {
+      resetConfig();
+    });
+
+    it("should answer preflight requests with 204 instead of 404", async () => {
+      const result = await handler(preflightEvent("https://anywhere.dev"));
+
+      expect(result.statusCode).toBe(204);
+      expect(result.headers!["access-control-allow-origin"]).toBe("*");
+    });
+
+    it("should apply the configured allowlist to every response", async () => {
+      overrideConfig({ cors: { ...policy, credentials: false } });
+
+      const allowed = await handler(
+        createMockApiGatewayEvent({
+          rawPath: "/api/info",
+          headers: { origin: "https://app.example.com" },
+        })
+      );
+      const denied = await handler(
+        createMockApiGatewayEvent({
+          rawPath: "/api/info",
+          headers: { origin: "https://evil.com" },
+        })
+      );
+
+      expect(allowed.headers!["access-control-allow-origin"]).toBe(
+        "https://app.example.com"
+      );
+      expect(allowed.headers!["vary"]).toBe("Accept, Origin");
+      expect(denied.statusCode).toBe(200);
+      expect(denied.headers).not.toHaveProperty("access-control-allow-origin");
+    });
+
+    it("should add CORS headers to error responses too", async () => {
+      const result = await handler(
+        createMockApiGatewayEvent({ rawPath: "/nope" })
+      );
+
+      expect(result.statusCode).toBe(404);
+      expect(result.headers!["access-control-allow-origin"]).toBe("*");
+    });
+  });
+});
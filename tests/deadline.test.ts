@@ -0,0 +1,114 @@
+import { config } from "../src/config";
+import { runWithin, timeBudget } from "../src/deadline";
+import { GatewayTimeoutError } from "../src/errors";
+import { clearChecks, registerCheck } from "../src/health";
+import { handler } from "../src/index";
+import { createMockApiGatewayEvent, createMockContext } from "./test-utils";
+
+function contextWith(remainingMs: number) {
+  return createMockContext({ getRemainingTimeInMillis: () => remainingMs });
+}
+
+describe("Deadlines", () => {
+  describe("timeBudget", () => {
+    it("should leave the margin before the invocation deadline", () => {
+      expect(timeBudget(contextWith(3000), undefined, 500)).toBe(2500);
+    });
+
+    it("should prefer a shorter route budget", () => {
+      expect(timeBudget(contextWith(3000), 1000, 500)).toBe(1000);
+      expect(timeBudget(contextWith(3000), 5000, 500)).toBe(2500);
+    });
+
+    it("should be unlimited without a context or route budget", () => {
+      expect(timeBudget(undefined)).toBe(Infinity);
+      expect(timeBudget(undefined, 200)).toBe(200);
+    });
+  });
+
+  describe("runWithin", () => {
+    it("should settle with the work when it finishes in time", async () => {
+      await expect(
+        runWithin(
+          1000,
+          async () => "done",
+          () => new Error("late")
+        )
+      ).resolves.toBe("done");
+      await expect(
+        runWithin(
+          1000,
+          async () => {
+            throw new Error("boom");
+          },
+          () => new Error("late")
+        )
+      ).rejects.toThrow("boom");
+    });
+
+    it("should abort the signal and reject once time is up", async () => {
+      let seen: AbortSignal | undefined;
+      const running = runWithin(
+        20,
+        (signal) => {
+          seen = signal;
+          return new Promise(() => {});
+        },
+        () => new GatewayTimeoutError("late")
+      );
+
+      await expect(running).rejects.toThrow("late");
+      expect(seen!.aborted).toBe(true);
+      expect(seen!.reason).toBe("deadline");
+    });
+  });
+
+  describe("handler", () => {
+    afterEach(() => {
+      clearChecks();
+    });
+
+    it("should answer 504 with the request ID when a route runs out of time", async () => {
+      registerCheck("slow", () => new Promise(() => {}));
+      const started = Date.now();
+
+      const result = await handler(
+        createMockApiGatewayEvent({ rawPath: "/readyz" }),
+        contextWith(config.deadline.marginMs + 50)
+      );
+
+      expect(Date.now() - started).toBeLessThan(1000);
+      expect(result.statusCode).toBe(504);
+      expect(result.headers!["content-type"]).toMatch(
+        /^application\/problem\+json/
+      );
+      expect(JSON.parse(result.body!)).toMatchObject({
+        status: 504,
+        title: "Gateway Timeout",
+        detail: "The request did not finish within 50 ms",
+        instance: "/readyz",
+        requestId: "test-request-123",
+      });
+    });
+
+    it("should answer 503 when too little time is left to start", async () => {
+      const result = await handler(
+        createMockApiGatewayEvent({ rawPath: "/healthz" }),
+        contextWith(config.deadline.marginMs)
+      );
+
+      expect(result.statusCode).toBe(503);
+      expect(result.headers!["retry-after"]).toBe("1");
+      expect(JSON.parse(result.body!).requestId).toBe("test-request-123");
+    });
+
+    it("should run routes normally with time to spare", async () => {
+      const result = await handler(
+        createMockApiGatewayEvent({ rawPath: "/healthz" }),
+        contextWith(30000)
+      );
+
+      expect(result.statusCode).toBe(200);
+    });
+  });
+});
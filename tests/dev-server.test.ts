@@ -0,0 +1,186 @@
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import type { APIGatewayProxyEventV2, Context } from "aws-lambda";
+import { detectSource } from "../src/adapters";
+import { handler, streamHandler } from "../src/index";
+import {
+  createContext,
+  createDevServer,
+  type LambdaHandler,
+} from "../src/dev-server";
+import type { StreamingHandler } from "../src/streaming";
+import { createMockApiGatewayEvent } from "./test-utils";
+
+describe("Local Dev Server", () => {
+  let server: Server;
+  let baseUrl: string;
+  let received: { event: APIGatewayProxyEventV2; context: Context }[];
+  let current: LambdaHandler | StreamingHandler | undefined;
+
+  beforeEach(async () => {
+    received = [];
+    const recording: LambdaHandler = async (event, context) => {
+      received.push({ event: event as APIGatewayProxyEventV2, context });
+      return handler(event);
+    };
+    current = recording;
+    server = createDevServer(() => current, { timeoutMs: 5000 });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  describe("event conversion", () => {
+    it("should build the same event shape as the test utilities", async () => {
+      await fetch(`${baseUrl}/api/info`);
+
+      const { event } = received[0];
+      const mock = createMockApiGatewayEvent({ rawPath: "/api/info" });
+      expect(Object.keys(event).sort()).toEqual(
+        expect.arrayContaining(Object.keys(mock).sort())
+      );
+      expect(Object.keys(event.requestContext).sort()).toEqual(
+        Object.keys(mock.requestContext).sort()
+      );
+      expect(event).toMatchObject({
+        version: "2.0",
+        routeKey: "$default",
+        rawPath: "/api/info",
+        rawQueryString: "",
+        requestContext: { http: { method: "GET", path: "/api/info" } },
+      });
+      expect(event.body).toBeUndefined();
+      expect(detectSource(event)).toBe("function-url");
+    });
+
+    it("should pass the query string, repeated keys and cookies", async () => {
+      await fetch(`${baseUrl}/api/hello/ada?times=2&tag=a&tag=b`, {
+        headers: { cookie: "session=abc; theme=dark" },
+      });
+
+      const { event } = received[0];
+      expect(event.rawQueryString).toBe("times=2&tag=a&tag=b");
+      expect(event.queryStringParameters).toEqual({ times: "2", tag: "a,b" });
+      expect(event.cookies).toEqual(["session=abc", "theme=dark"]);
+      expect(event.headers).not.toHaveProperty("cookie");
+    });
+
+    it("should keep text bodies as-is and base64 encode binary ones", async () => {
+      await fetch(`${baseUrl}/api/echo`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: '{"a":1}',
+      });
+      await fetch(`${baseUrl}/api/echo`, {
+        method: "POST",
+        headers: { "content-type": "application/octet-stream" },
+        body: Buffer.from([0xff, 0x00, 0x10]),
+      });
+
+      expect(received[0].event.body).toBe('{"a":1}');
+      expect(received[0].event.isBase64Encoded).toBe(false);
+      expect(received[1].event.body).toBe("/wAQ");
+      expect(received[1].event.isBase64Encoded).toBe(true);
+    });
+  });
+
+  describe("responses", () => {
+    it("should write the status, headers and body from the handler", async () => {
+      const response = await fetch(`${baseUrl}/api/hello/ada?times=2`);
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("content-type")).toBe(
+        "application/json; charset=utf-8"
+      );
+      expect(await response.json()).toEqual({
+        message: "Hello, ada! Hello, ada!",
+      });
+    });
+
+    it("should decode base64 bodies such as compressed responses", async () => {
+      const response = await fetch(`${baseUrl}/`, {
+        headers: { "accept-encoding": "gzip" },
+      });
+
+      expect(response.headers.get("content-encoding")).toBe("gzip");
+      expect(await response.text()).toContain("<!doctype html>");
+    });
+
+    it("should send each cookie as its own set-cookie header", async () => {
+      current = async () => ({
+        statusCode: 204,
+        cookies: ["a=1; Path=/", "b=2; Path=/"],
+      });
+
+      const response = await fetch(baseUrl);
+
+      expect(response.status).toBe(204);
+      expect(response.headers.getSetCookie()).toEqual([
+        "a=1; Path=/",
+        "b=2; Path=/",
+      ]);
+    });
+
+    it("should answer 502 when the handler throws", async () => {
+      jest.spyOn(console, "error").mockImplementation(() => {});
+      current = async () => {
+        throw new Error("boom");
+      };
+
+      expect((await fetch(baseUrl)).status).toBe(502);
+    });
+
+    it("should pass streamed bodies on as they are written", async () => {
+      current = streamHandler;
+
+      const res = await fetch(`${baseUrl}/api/events?interval=100&limit=2`);
+      const chunks: string[] = [];
+      const reader = res.body!.getReader();
+      for (
+        let read = await reader.read();
+        !read.done;
+        read = await reader.read()
+      ) {
+        chunks.push(Buffer.from(read.value).toString());
+      }
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("content-type")).toBe(
+        "text/event-stream; charset=utf-8"
+      );
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks[0]).toMatch(/^event: status\nid: 1\n/);
+      expect(chunks.join("")).toContain("event: end");
+    });
+
+    it("should answer 503 until the handler has been built", async () => {
+      current = undefined;
+
+      expect((await fetch(baseUrl)).status).toBe(503);
+    });
+  });
+
+  describe("createContext", () => {
+    it("should count down the remaining time from the timeout", () => {
+      jest.useFakeTimers({ now: 1_000_000 });
+      try {
+        const context = createContext("req-1", { timeoutMs: 3000 });
+        expect(context.awsRequestId).toBe("req-1");
+        expect(context.getRemainingTimeInMillis()).toBe(3000);
+
+        jest.advanceTimersByTime(1200);
+        expect(context.getRemainingTimeInMillis()).toBe(1800);
+
+        jest.advanceTimersByTime(5000);
+        expect(context.getRemainingTimeInMillis()).toBe(0);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { handler } from "../src/index";
+import {
+  ConflictError,
+  HttpError,
+  MethodNotAllowedError,
+  NotFoundError,
+  TooManyRequestsError,
+  errorResponse,
+  toProblem,
+} from "../src/errors";
+import {
+  createMockApiGatewayEvent,
+  createMockRequest,
+  parseJsonResponse,
+} from "./test-utils";
+
+describe("Error Handling", () => {
+  describe("HttpError classes", () => {
+    it("should carry status, title and detail", () => {
+      const err = new ConflictError("Item already exists");
+
+      expect(err).toBeInstanceOf(HttpError);
+      expect(err.status).toBe(409);
+      expect(err.title).toBe("Conflict");
+      expect(err.message).toBe("Item already exists");
+    });
+
+    it("should attach the headers clients need", () => {
+      expect(new MethodNotAllowedError(["GET", "HEAD"]).headers).toEqual({
+        allow: "GET, HEAD",
+      });
+      expect(new TooManyRequestsError(1.2).headers).toEqual({
+        "retry-after": "2",
+      });
+    });
+  });
+
+  describe("toProblem", () => {
+    it("should build an RFC 7807 document with extensions", () => {
+      const err = new HttpError(422, {
+        detail: "Nope",
+        type: "https://example.com/problems/nope",
+        extensions: { field: "name" },
+      });
+
+      expect(toProblem(err, { instance: "/x", requestId: "r-1" })).toEqual({
+        type: "https://example.com/problems/nope",
+        title: "Error",
+        status: 422,
+        detail: "Nope",
+        instance: "/x",
+        requestId: "r-1",
+        field: "name",
+      });
+    });
+
+    it("should hide unexpected error messages and stacks by default", () => {
+      const problem = toProblem(new Error("database password is hunter2"));
+
+      expect(problem).toEqual({
+        type: "about:blank",
+        title: "Internal Server Error",
+        status: 500,
+      });
+    });
+
+    it("should include the message and original stack in debug mode", () => {
+      const err = new Error("boom");
+      const problem = toProblem(err, { debug: true });
+
+      expect(problem.detail).toBe("boom");
+      expect(problem.stack).toBe(err.stack);
+    });
+  });
+
+  describe("errorResponse", () => {
+    it("should render problem+json carrying the request ID", () => {
+      const request = createMockRequest({
+        rawPath: "/api/thing",
+        requestId: "req-42",
+      });
+      const result = errorResponse(new NotFoundError(), request);
+
+      expect(result.statusCode).toBe(404);
+      expect(result.headers!["content-type"]).toBe(
+        "application/problem+json; charset=utf-8"
+      );
+      expect(parseJsonResponse(result)).toEqual({
+        type: "about:blank",
+        title: "Not Found",
+        status: 404,
+        instance: "/api/thing",
+        requestId: "req-42",
+      });
+    });
+
+    it("should turn unexpected errors into a 500", () => {
+      const request = createMockRequest();
+      const result = errorResponse(new TypeError("x is undefined"), request);
+
+      expect(result.statusCode).toBe(500);
+      expect(parseJsonResponse(result).title).toBe("Internal Server Error");
+      expect(result.body).not.toContain("x is undefined");
+    });
+
+    it("should render an escaped HTML page for browsers", () => {
+      const request = createMockRequest({
+        rawPath: "/missing",
+        requestId: "req-7",
+        headers: { accept: "text/html,application/xhtml+xml,*/*;q=0.8" },
+      });
+      const result = errorResponse(new NotFoundError("<script>"), request);
+
+      expect(result.statusCode).toBe(404);
+      expect(result.headers!["content-type"]).toBe("text/html; charset=utf-8");
+      expect(result.body).toContain("<!doctype html>");
+      expect(result.body).toContain("404 Not Found</h1>");
+      expect(result.body).toContain("&lt;script&gt;");
+      expect(result.body).toContain("req-7");
+    });
+  });
+
+  describe("handler", () => {
+    it("should answer malformed path params with 400", async () => {
+      const event = createMockApiGatewayEvent({
+        rawPath: "/api/hello/%E0%A4",
+      });
+      const result = await handler(event);
+
+      expect(result.statusCode).toBe(400);
+      expect(parseJsonResponse(result).detail).toContain("Malformed path");
+    });
+
+    it("should omit the body of error responses to HEAD requests", async () => {
+      const event = createMockApiGatewayEvent({
+        rawPath: "/nope",
+        method: "HEAD",
+      });
+      const result = await handler(event);
+
+      expect(result.statusCode).toBe(404);
+      expect(result.body).toBe("");
+    });
+  });
+});
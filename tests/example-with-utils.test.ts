@@ -32,8 +32,8 @@ describe("Example Tests Using Test Utils", () => {
 
       const body = parseJsonResponse(result);
       expect(result.statusCode).toBe(404);
-      expect(body.error).toBe("Not Found");
-      expect(body.path).toBe("/does-not-exist");
+      expect(body.title).toBe("Not Found");
+      expect(body.instance).toBe("/does-not-exist");
     });
   });
 
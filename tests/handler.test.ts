@@ -86,7 +86,28 @@ describe("Lambda Handler", () => {
       const result = await handler(event);
 
       expect(result.headers!["access-control-allow-origin"]).toBe("*");
-      expect(result.headers!["cache-control"]).toBe("no-store");
+    });
+
+    it("should let caches revalidate the page with an ETag", async () => {
+      const event = createMockEvent("/", "GET");
+      const result = await handler(event);
+
+      expect(result.headers!["cache-control"]).toBe(
+        "public, max-age=0, s-maxage=300, must-revalidate"
+      );
+      expect(result.headers!["etag"]).toMatch(/^"[\w-]+"$/);
+    });
+
+    it("should answer a repeat visit with 304", async () => {
+      const first = await handler(createMockEvent("/", "GET"));
+      const repeat = await handler(
+        createMockEvent("/", "GET", {
+          "if-none-match": String(first.headers!["etag"]),
+        })
+      );
+
+      expect(repeat.statusCode).toBe(304);
+      expect(repeat.body).toBe("");
     });
   });
 
@@ -149,37 +170,54 @@ describe("Lambda Handler", () => {
 
       expect(result.statusCode).toBe(404);
       expect(result.headers!["content-type"]).toBe(
-        "application/json; charset=utf-8"
+        "application/problem+json; charset=utf-8"
       );
 
       const body = JSON.parse(result.body!);
-      expect(body).toHaveProperty("error", "Not Found");
-      expect(body).toHaveProperty("path", "/unknown/path");
+      expect(body).toHaveProperty("title", "Not Found");
+      expect(body).toHaveProperty("status", 404);
+      expect(body).toHaveProperty("instance", "/unknown/path");
+      expect(body).toHaveProperty("requestId", "test-request-123");
     });
+  });
 
-    it("should return 404 for unsupported HTTP methods", async () => {
+  describe("405 Method Not Allowed", () => {
+    it("should return 405 for unsupported HTTP methods", async () => {
       const event = createMockEvent("/", "POST");
       const result = await handler(event);
 
-      expect(result.statusCode).toBe(404);
+      expect(result.statusCode).toBe(405);
       expect(result.headers!["content-type"]).toBe(
-        "application/json; charset=utf-8"
+        "application/problem+json; charset=utf-8"
       );
+      expect(result.headers!["allow"]).toBe("GET, HEAD");
 
       const body = JSON.parse(result.body!);
-      expect(body).toHaveProperty("error", "Not Found");
-      expect(body).toHaveProperty("path", "/");
+      expect(body).toHaveProperty("title", "Method Not Allowed");
+      expect(body).toHaveProperty("instance", "/");
     });
 
-    it("should return 404 for POST to /api/info", async () => {
+    it("should return 405 for POST to /api/info", async () => {
       const event = createMockEvent("/api/info", "POST");
       const result = await handler(event);
 
-      expect(result.statusCode).toBe(404);
+      expect(result.statusCode).toBe(405);
+      expect(result.headers!["allow"]).toBe("GET, HEAD");
 
       const body = JSON.parse(result.body!);
-      expect(body).toHaveProperty("error", "Not Found");
-      expect(body).toHaveProperty("path", "/api/info");
+      expect(body).toHaveProperty("title", "Method Not Allowed");
+      expect(body).toHaveProperty("instance", "/api/info");
+    });
+  });
+
+  describe("HEAD requests", () => {
+    it("should answer HEAD with the GET headers and an empty body", async () => {
+      const event = createMockEvent("/", "HEAD");
+      const result = await handler(event);
+
+      expect(result.statusCode).toBe(200);
+      expect(result.headers!["content-type"]).toBe("text/html; charset=utf-8");
+      expect(result.body).toBe("");
     });
   });
 
@@ -260,16 +298,22 @@ describe("Lambda Handler", () => {
 
     it("should include required headers in all responses", async () => {
       const testCases = [
-        createMockEvent("/", "GET"),
-        createMockEvent("/api/info", "GET"),
-        createMockEvent("/unknown", "GET"),
+        {
+          event: createMockEvent("/", "GET"),
+          cacheControl: "public, max-age=0, s-maxage=300, must-revalidate",
+        },
+        {
+          event: createMockEvent("/api/info", "GET"),
+          cacheControl: "no-store",
+        },
+        { event: createMockEvent("/unknown", "GET"), cacheControl: "no-store" },
       ];
 
-      for (const event of testCases) {
+      for (const { event, cacheControl } of testCases) {
         const result = await handler(event);
 
         expect(result.headers).toHaveProperty("content-type");
-        expect(result.headers).toHaveProperty("cache-control", "no-store");
+        expect(result.headers).toHaveProperty("cache-control", cacheControl);
         expect(result.headers).toHaveProperty(
           "access-control-allow-origin",
           "*"
@@ -0,0 +1,139 @@
+import { handler } from "../src/index";
+import { buildInfo } from "../src/build-info";
+import { checkReadiness, clearChecks, registerCheck } from "../src/health";
+import { Logger } from "../src/logger";
+import {
+  createMockApiGatewayEvent,
+  createMockContext,
+  parseJsonResponse,
+} from "./test-utils";
+
+describe("Health and Build Info", () => {
+  afterEach(() => {
+    clearChecks();
+  });
+
+  describe("checkReadiness", () => {
+    it("should be ok with no checks registered", async () => {
+      expect(await checkReadiness()).toEqual({ status: "ok", checks: {} });
+    });
+
+    it("should report each check's status and latency", async () => {
+      registerCheck("config", () => true);
+      registerCheck("database", async () => {
+        throw new Error("connection refused");
+      });
+
+      const report = await checkReadiness();
+
+      expect(report.status).toBe("fail");
+      expect(report.checks).toEqual({
+        config: { status: "ok", latencyMs: expect.any(Number) },
+        database: { status: "fail", latencyMs: expect.any(Number) },
+      });
+    });
+
+    it("should log why a check failed instead of reporting it", async () => {
+      const lines: string[] = [];
+      const log = new Logger(
+        {},
+        { level: "warn", write: (line) => lines.push(line) }
+      );
+      registerCheck("slow", () => new Promise(() => {}), { timeoutMs: 20 });
+
+      const report = await checkReadiness(log);
+
+      expect(report.checks.slow).toEqual({
+        status: "fail",
+        latencyMs: expect.any(Number),
+      });
+      expect(lines.map((line) => JSON.parse(line))).toEqual([
+        expect.objectContaining({
+          level: "warn",
+          message: "Readiness check failed",
+          check: "slow",
+          error: expect.objectContaining({ message: "Timed out after 20ms" }),
+        }),
+      ]);
+    });
+
+    it("should refuse duplicate check names", () => {
+      registerCheck("cache", () => true);
+
+      expect(() => registerCheck("cache", () => true)).toThrow(
+        'Health check "cache" is already registered'
+      );
+    });
+  });
+
+  describe("buildInfo", () => {
+    it("should fall back to placeholders when not bundled", () => {
+      expect(buildInfo).toEqual({
+        version: "dev",
+        commit: "unknown",
+        builtAt: "unknown",
+      });
+      expect(Object.isFrozen(buildInfo)).toBe(true);
+    });
+  });
+
+  describe("handler", () => {
+    it("should answer /healthz without running checks", async () => {
+      const check = jest.fn(async () => {
+        throw new Error("down");
+      });
+      registerCheck("database", check);
+
+      const result = await handler(
+        createMockApiGatewayEvent({ rawPath: "/healthz" })
+      );
+
+      expect(result.statusCode).toBe(200);
+      expect(parseJsonResponse(result)).toEqual({ status: "ok" });
+      expect(check).not.toHaveBeenCalled();
+    });
+
+    it("should answer /readyz with 200 when every check passes", async () => {
+      registerCheck("config", () => true);
+
+      const result = await handler(
+        createMockApiGatewayEvent({ rawPath: "/readyz" })
+      );
+
+      expect(result.statusCode).toBe(200);
+      expect(parseJsonResponse(result).checks.config.status).toBe("ok");
+    });
+
+    it("should answer /readyz with 503 when a check fails", async () => {
+      registerCheck("database", async () => {
+        throw new Error("connection refused");
+      });
+
+      const result = await handler(
+        createMockApiGatewayEvent({ rawPath: "/readyz" })
+      );
+
+      expect(result.statusCode).toBe(503);
+      expect(result.headers!["cache-control"]).toBe("no-store");
+      expect(parseJsonResponse(result)).toMatchObject({
+        status: "fail",
+        checks: { database: { status: "fail" } },
+      });
+      expect(result.body).not.toContain("connection refused");
+    });
+
+    it("should include the Lambda function version in /api/version", async () => {
+      const result = await handler(
+        createMockApiGatewayEvent({ rawPath: "/api/version" }),
+        createMockContext({ functionVersion: "42" })
+      );
+
+      expect(parseJsonResponse(result)).toEqual({
+        version: "dev",
+        commit: "unknown",
+        builtAt: "unknown",
+        functionVersion: "42",
+      });
+    });
+  });
+});
@@ -1,3 +1,4 @@
+import { brotliDecompressSync } from "zlib";
 import { handler } from "../src/index";
 
 // Real AWS API Gateway v2 event structure for integration testing
@@ -85,13 +86,18 @@ describe("Integration Tests", () => {
 
       expect(result.statusCode).toBe(200);
       expect(result.headers!["content-type"]).toBe("text/html; charset=utf-8");
-      expect(result.body).toContain("<!doctype html>");
-      expect(result.body).toContain(
-        "Hello from AWS Lambda deployed by Dagger! 👋"
-      );
+      // The browser sent accept-encoding with br, so the page is compressed
+      expect(result.headers!["content-encoding"]).toBe("br");
+      expect(result.isBase64Encoded).toBe(true);
+
+      const html = brotliDecompressSync(
+        Buffer.from(result.body!, "base64")
+      ).toString();
+      expect(html).toContain("<!doctype html>");
+      expect(html).toContain("Hello from AWS Lambda deployed by Dagger! 👋");
     });
 
-    it("should handle POST method returning 404", async () => {
+    it("should handle POST method returning 405", async () => {
       const postEvent = {
         ...realApiGatewayEvent,
         requestContext: {
@@ -105,14 +111,16 @@ describe("Integration Tests", () => {
 
       const result = await handler(postEvent);
 
-      expect(result.statusCode).toBe(404);
+      expect(result.statusCode).toBe(405);
       expect(result.headers!["content-type"]).toBe(
-        "application/json; charset=utf-8"
+        "application/problem+json; charset=utf-8"
       );
+      expect(result.headers!["allow"]).toBe("GET, HEAD");
 
       const body = JSON.parse(result.body!);
-      expect(body.error).toBe("Not Found");
-      expect(body.path).toBe("/api/info");
+      expect(body.title).toBe("Method Not Allowed");
+      expect(body.instance).toBe("/api/info");
+      expect(body.requestId).toBe("abc123de-f456-7890-abcd-ef1234567890");
     });
   });
 
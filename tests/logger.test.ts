@@ -0,0 +1,193 @@
+import { handler } from "../src/index";
+import { overrideConfig, resetConfig } from "../src/config";
+import { Logger, REDACTED, redactHeaders, type LogLevel } from "../src/logger";
+import { createMockApiGatewayEvent, createMockContext } from "./test-utils";
+
+function capture(level: LogLevel = "debug") {
+  const lines: Record<string, any>[] = [];
+  const log = new Logger(
+    { service: "test" },
+    { level, write: (line) => lines.push(JSON.parse(line)) }
+  );
+  return { log, lines };
+}
+
+describe("Structured Logging", () => {
+  describe("Logger", () => {
+    it("should write one JSON object per line with level and time", () => {
+      const { log, lines } = capture();
+
+      log.info("hello", { answer: 42 });
+
+      expect(lines).toEqual([
+        {
+          level: "info",
+          time: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+          message: "hello",
+          service: "test",
+          answer: 42,
+        },
+      ]);
+    });
+
+    it("should drop lines below the configured level", () => {
+      const { log, lines } = capture("info");
+
+      log.debug("hidden");
+      log.warn("shown");
+
+      expect(lines.map((line) => line.level)).toEqual(["warn"]);
+    });
+
+    it("should default to config.log.level", () => {
+      const lines: string[] = [];
+      const log = new Logger({}, { write: (line) => lines.push(line) });
+      try {
+        overrideConfig({ log: { level: "error" } });
+        log.warn("hidden");
+        overrideConfig({ log: { level: "warn" } });
+        log.warn("shown");
+      } finally {
+        resetConfig();
+      }
+
+      expect(lines).toHaveLength(1);
+    });
+
+    it("should carry fields into child loggers", () => {
+      const { log, lines } = capture();
+
+      log.child({ requestId: "req-1" }).child({ step: 2 }).info("nested");
+
+      expect(lines[0]).toMatchObject({
+        service: "test",
+        requestId: "req-1",
+        step: 2,
+      });
+    });
+
+    it("should serialize errors with their message and stack", () => {
+      const { log, lines } = capture();
+
+      log.error("failed", { error: new TypeError("x is undefined") });
+
+      expect(lines[0].error).toEqual({
+        name: "TypeError",
+        message: "x is undefined",
+        stack: expect.stringContaining("TypeError: x is undefined"),
+      });
+    });
+
+    it("should redact sensitive headers in logged fields", () => {
+      const { log, lines } = capture();
+
+      log.info("request", {
+        headers: { Authorization: "Bearer secret", accept: "*/*" },
+      });
+
+      expect(lines[0].headers).toEqual({
+        Authorization: REDACTED,
+        accept: "*/*",
+      });
+    });
+  });
+
+  describe("redactHeaders", () => {
+    it("should replace configured headers case-insensitively", () => {
+      expect(
+        redactHeaders({
+          cookie: "session=abc",
+          "X-Api-Key": "k",
+          "content-type": "text/plain",
+        })
+      ).toEqual({
+        cookie: REDACTED,
+        "X-Api-Key": REDACTED,
+        "content-type": "text/plain",
+      });
+    });
+
+    it("should accept a custom list", () => {
+      expect(redactHeaders({ "x-secret": "s" }, ["X-Secret"])).toEqual({
+        "x-secret": REDACTED,
+      });
+    });
+  });
+
+  describe("handler", () => {
+    let output: Record<string, any>[];
+
+    beforeEach(() => {
+      output = [];
+      overrideConfig({ log: { level: "debug" } });
+      jest.spyOn(process.stdout, "write").mockImplementation((chunk) => {
+        output.push(JSON.parse(String(chunk)));
+        return true;
+      });
+    });
+
+    afterEach(() => {
+      resetConfig();
+      jest.restoreAllMocks();
+    });
+
+    it("should log one completion line per request with Lambda context", async () => {
+      await handler(
+        createMockApiGatewayEvent({ rawPath: "/api/info" }),
+        createMockContext({ functionVersion: "7", memoryLimitInMB: "256" })
+      );
+      await handler(createMockApiGatewayEvent({ rawPath: "/api/info" }));
+
+      const completed = output.filter(
+        (line) => line.message === "Request completed"
+      );
+      expect(completed).toHaveLength(2);
+      expect(completed[0]).toEqual({
+        level: "info",
+        time: expect.any(String),
+        message: "Request completed",
+        requestId: "test-request-123",
+        awsRequestId: "test-aws-request-id",
+        traceId: expect.stringMatching(/^[0-9a-f]{32}$/),
+        method: "GET",
+        path: "/api/info",
+        status: 200,
+        latencyMs: expect.any(Number),
+        coldStart: true,
+        functionVersion: "7",
+        memoryLimitInMB: 256,
+        sourceIp: "192.168.1.1",
+        userAgent: "Mozilla/5.0 (Test Browser)",
+      });
+      expect(completed[1].coldStart).toBe(false);
+    });
+
+    it("should redact sensitive request headers at debug level", async () => {
+      await handler(
+        createMockApiGatewayEvent({
+          headers: { authorization: "Bearer secret", cookie: "session=abc" },
+        })
+      );
+
+      const received = output.find(
+        (line) => line.message === "Request received"
+      );
+      expect(received!.headers).toMatchObject({
+        authorization: REDACTED,
+        cookie: REDACTED,
+        accept: "*/*",
+      });
+      expect(JSON.stringify(output)).not.toContain("secret");
+    });
+
+    it("should log the status of error responses", async () => {
+      await handler(createMockApiGatewayEvent({ rawPath: "/missing" }));
+
+      expect(output[output.length - 1]).toMatchObject({
+        message: "Request completed",
+        status: 404,
+      });
+      expect(output.some((line) => line.level === "error")).toBe(false);
+    });
+  });
+});
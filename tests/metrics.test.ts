@@ -0,0 +1,237 @@
+import { config, overrideConfig } from "../src/config";
+import { handler, streamHandler } from "../src/index";
+import { Metrics, TestMetricsSink, useMetricsSink } from "../src/metrics";
+import {
+  createMockApiGatewayEvent,
+  createMockContext,
+  invokeStreaming,
+} from "./test-utils";
+
+describe("Metrics", () => {
+  let sink: TestMetricsSink;
+
+  beforeEach(() => {
+    sink = new TestMetricsSink();
+    useMetricsSink(sink.write);
+  });
+
+  afterEach(() => {
+    useMetricsSink();
+  });
+
+  describe("Metrics", () => {
+    it("should write nothing until flushed", () => {
+      const metrics = new Metrics();
+
+      metrics.put("Orders", 1);
+      expect(sink.documents).toEqual([]);
+
+      metrics.flush(1700000000000);
+      expect(sink.documents).toHaveLength(1);
+    });
+
+    it("should write Embedded Metric Format documents", () => {
+      const metrics = new Metrics({ Service: "shop" }, "Test");
+      metrics.setProperty("requestId", "r-1");
+
+      metrics.put("Orders", 2);
+      metrics.put("Basket", 512, "Bytes");
+      metrics.flush(1700000000000);
+
+      expect(sink.documents).toEqual([
+        {
+          _aws: {
+            Timestamp: 1700000000000,
+            CloudWatchMetrics: [
+              {
+                Namespace: "Test",
+                Dimensions: [["Service"]],
+                Metrics: [
+                  { Name: "Orders", Unit: "Count" },
+                  { Name: "Basket", Unit: "Bytes" },
+                ],
+              },
+            ],
+          },
+          requestId: "r-1",
+          Service: "shop",
+          Orders: 2,
+          Basket: 512,
+        },
+      ]);
+    });
+
+    it("should batch repeated values and split by dimensions", () => {
+      const metrics = new Metrics({ Service: "shop" });
+
+      metrics.put("Latency", 10, "Milliseconds", { Route: "/a" });
+      metrics.put("Latency", 20, "Milliseconds", { Route: "/a" });
+      metrics.put("Latency", 30, "Milliseconds", { Route: "/b" });
+      metrics.flush();
+
+      expect(sink.documents).toHaveLength(2);
+      expect(sink.documents[0]).toMatchObject({
+        Route: "/a",
+        Latency: [10, 20],
+      });
+      expect(sink.documents[0]._aws.CloudWatchMetrics[0].Dimensions).toEqual([
+        ["Service", "Route"],
+      ]);
+      expect(sink.values("Latency")).toEqual([
+        {
+          value: 10,
+          unit: "Milliseconds",
+          dimensions: { Service: "shop", Route: "/a" },
+        },
+        {
+          value: 20,
+          unit: "Milliseconds",
+          dimensions: { Service: "shop", Route: "/a" },
+        },
+        {
+          value: 30,
+          unit: "Milliseconds",
+          dimensions: { Service: "shop", Route: "/b" },
+        },
+      ]);
+    });
+
+    it("should split more than 100 values across documents", () => {
+      const metrics = new Metrics();
+
+      for (let i = 0; i < 150; i++) metrics.put("Hits", i);
+      metrics.flush();
+
+      expect(sink.documents).toHaveLength(2);
+      expect(sink.documents[0].Hits).toHaveLength(100);
+      expect(sink.documents[1].Hits).toHaveLength(50);
+    });
+
+    it("should start over after a flush", () => {
+      const metrics = new Metrics();
+
+      metrics.put("Hits", 1);
+      metrics.flush();
+      metrics.flush();
+
+      expect(sink.documents).toHaveLength(1);
+    });
+
+    it("should drop metrics when disabled", () => {
+      const metrics = new Metrics();
+      const restore = overrideConfig({ metrics: { enabled: false } });
+      try {
+        metrics.put("Hits", 1);
+        metrics.flush();
+      } finally {
+        restore();
+      }
+
+      expect(sink.documents).toEqual([]);
+    });
+  });
+
+  describe("handler", () => {
+    // Runs first: each test file loads the handler afresh
+    it("should count the cold start once", async () => {
+      await handler(createMockApiGatewayEvent({ rawPath: "/healthz" }));
+      await handler(createMockApiGatewayEvent({ rawPath: "/healthz" }));
+
+      expect(sink.values("ColdStart")).toEqual([
+        {
+          value: 1,
+          unit: "Count",
+          dimensions: { Service: config.metrics.service },
+        },
+      ]);
+    });
+
+    it("should record request metrics by route template and status class", async () => {
+      await handler(
+        createMockApiGatewayEvent({ rawPath: "/api/hello/ada" }),
+        createMockContext()
+      );
+
+      const dimensions = {
+        Service: config.metrics.service,
+        Route: "/api/hello/:name",
+        StatusClass: "2xx",
+      };
+      expect(sink.values("Requests")).toEqual([
+        { value: 1, unit: "Count", dimensions },
+      ]);
+      expect(sink.values("Latency")).toEqual([
+        { value: expect.any(Number), unit: "Milliseconds", dimensions },
+      ]);
+      expect(sink.values("ResponseSize")).toEqual([
+        {
+          value: Buffer.byteLength('{"message":"Hello, ada!"}'),
+          unit: "Bytes",
+          dimensions,
+        },
+      ]);
+      expect(sink.documents[0]).toMatchObject({
+        requestId: "test-request-123",
+        awsRequestId: "test-aws-request-id",
+      });
+    });
+
+    it("should record custom metrics from route handlers", async () => {
+      await handler(
+        createMockApiGatewayEvent({
+          rawPath: "/api/hello/ada",
+          queryStringParameters: { times: "3" },
+        })
+      );
+
+      expect(sink.values("Greetings")).toEqual([
+        {
+          value: 3,
+          unit: "Count",
+          dimensions: { Service: config.metrics.service },
+        },
+      ]);
+    });
+
+    it("should group unmatched requests and errors by status class", async () => {
+      await handler(createMockApiGatewayEvent({ rawPath: "/missing" }));
+      await handler(
+        createMockApiGatewayEvent({
+          rawPath: "/api/hello/x",
+          queryStringParameters: { times: "9" },
+        })
+      );
+
+      expect(sink.values("Requests").map((value) => value.dimensions)).toEqual([
+        expect.objectContaining({ Route: "unmatched", StatusClass: "4xx" }),
+        expect.objectContaining({
+          Route: "/api/hello/:name",
+          StatusClass: "4xx",
+        }),
+      ]);
+    });
+
+    it("should flush once per invocation, before returning", async () => {
+      await handler(createMockApiGatewayEvent({ rawPath: "/healthz" }));
+      const afterFirst = sink.documents.length;
+      await handler(createMockApiGatewayEvent({ rawPath: "/healthz" }));
+
+      expect(afterFirst).toBeGreaterThan(0);
+      expect(sink.values("Requests")).toHaveLength(2);
+    });
+
+    it("should count the bytes a streamed response writes", async () => {
+      const streamed = await invokeStreaming(
+        streamHandler,
+        createMockApiGatewayEvent({
+          rawPath: "/api/events",
+          queryStringParameters: { interval: "100", limit: "2" },
+        })
+      );
+
+      expect(sink.values("ResponseSize")).toEqual([
+        expect.objectContaining({ value: Buffer.byteLength(streamed.body) }),
+      ]);
+    });
+  });
+});
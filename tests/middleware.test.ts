@@ -0,0 +1,178 @@
+import { handler } from "../src/index";
+import { errorResponse, UnauthorizedError } from "../src/errors";
+import type { HttpRequest } from "../src/event";
+import { compose, type Middleware } from "../src/middleware";
+import { resp } from "../src/response";
+import { Router } from "../src/router";
+import {
+  createMockApiGatewayEvent,
+  createMockRequest,
+  runMiddleware,
+} from "./test-utils";
+
+const ok = async () => resp(200, "ok", "text/plain");
+const onError = (err: unknown, request: HttpRequest) =>
+  errorResponse(err, request);
+
+function tracing(name: string, calls: string[]): Middleware {
+  return async (request, next) => {
+    calls.push(`${name}:in`);
+    const result = await next();
+    calls.push(`${name}:out`);
+    return result;
+  };
+}
+
+describe("Middleware", () => {
+  describe("compose", () => {
+    it("should run middleware outermost first and unwind in reverse", async () => {
+      const calls: string[] = [];
+      const pipeline = compose(
+        [tracing("a", calls), tracing("b", calls)],
+        async () => {
+          calls.push("handler");
+          return resp(200, "ok", "text/plain");
+        },
+        onError
+      );
+
+      await pipeline(createMockRequest());
+
+      expect(calls).toEqual(["a:in", "b:in", "handler", "b:out", "a:out"]);
+    });
+
+    it("should let middleware short-circuit with a response", async () => {
+      const final = jest.fn(ok);
+      const pipeline = compose(
+        [async () => resp(418, "teapot", "text/plain")],
+        final,
+        onError
+      );
+
+      const result = await pipeline(createMockRequest());
+
+      expect(result.statusCode).toBe(418);
+      expect(final).not.toHaveBeenCalled();
+    });
+
+    it("should let middleware change the response on the way out", async () => {
+      const pipeline = compose(
+        [
+          async (request, next) => {
+            const result = await next();
+            return {
+              ...result,
+              headers: { ...result.headers, "x-handled-by": "middleware" },
+            };
+          },
+        ],
+        ok,
+        onError
+      );
+
+      const result = await pipeline(createMockRequest());
+
+      expect(result.headers!["x-handled-by"]).toBe("middleware");
+    });
+
+    it("should render errors so outer middleware sees a response", async () => {
+      let seen: number | undefined;
+      const pipeline = compose(
+        [
+          async (request, next) => {
+            const result = await next();
+            seen = result.statusCode;
+            return result;
+          },
+          async () => {
+            throw new UnauthorizedError();
+          },
+        ],
+        ok,
+        onError
+      );
+
+      const result = await pipeline(createMockRequest());
+
+      expect(seen).toBe(401);
+      expect(result.statusCode).toBe(401);
+    });
+
+    it("should reject a second call to next()", async () => {
+      const pipeline = compose(
+        [
+          async (request, next) => {
+            await next();
+            return next();
+          },
+        ],
+        ok,
+        (err) => resp(500, String(err), "text/plain")
+      );
+
+      const result = await pipeline(createMockRequest());
+
+      expect(result.body).toContain("next() called more than once");
+    });
+  });
+
+  describe("Router", () => {
+    it("should collect global middleware with use()", () => {
+      const a: Middleware = async (request, next) => next();
+      const b: Middleware = async (request, next) => next();
+
+      expect(new Router().use(a).use(b).middleware).toEqual([a, b]);
+    });
+
+    it("should keep per-route middleware on the matched route", () => {
+      const auth: Middleware = async () => resp(401, "", "text/plain");
+      const router = new Router().get("/private", {
+        middleware: [auth],
+        handler: () => "secret",
+      });
+
+      const match = router.match("GET", "/private");
+      if (match.status !== "found") throw new Error("expected a match");
+      expect(match.route.middleware).toEqual([auth]);
+    });
+  });
+
+  describe("runMiddleware", () => {
+    it("should report whether the middleware called next()", async () => {
+      const passthrough = await runMiddleware(async (request, next) => next());
+      const blocking = await runMiddleware(async () =>
+        resp(403, "", "text/plain")
+      );
+
+      expect(passthrough.calledNext).toBe(true);
+      expect(passthrough.result.statusCode).toBe(200);
+      expect(blocking.calledNext).toBe(false);
+      expect(blocking.result.statusCode).toBe(403);
+    });
+
+    it("should pass the normalized request and a custom downstream", async () => {
+      const { result, request } = await runMiddleware(
+        async (request, next) => next(),
+        createMockApiGatewayEvent({ rawPath: "/api/info" }),
+        (request) => resp(200, request.path, "text/plain")
+      );
+
+      expect(request.path).toBe("/api/info");
+      expect(result.body).toBe("/api/info");
+    });
+  });
+
+  describe("handler", () => {
+    it("should run router middleware for unmatched paths too", async () => {
+      const result = await handler(
+        createMockApiGatewayEvent({
+          rawPath: "/nope",
+          headers: { origin: "https://app.example.com" },
+        })
+      );
+
+      expect(result.statusCode).toBe(404);
+      expect(result.headers!["access-control-allow-origin"]).toBe("*");
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import { handler } from "../src/index";
+import { negotiate, parseAccept } from "../src/accept";
+import { represent, toYaml } from "../src/negotiate";
+import {
+  createMockApiGatewayEvent,
+  parseJsonResponse,
+  presets,
+} from "./test-utils";
+
+const available = [
+  "application/json",
+  "application/yaml",
+  "text/plain",
+  "text/html",
+];
+
+describe("Content Negotiation", () => {
+  describe("parseAccept", () => {
+    it("should parse media ranges and q-values", () => {
+      expect(
+        parseAccept("text/html, application/json;q=0.5, */*;q=abc")
+      ).toEqual([
+        { type: "text", subtype: "html", q: 1 },
+        { type: "application", subtype: "json", q: 0.5 },
+        { type: "*", subtype: "*", q: 1 },
+      ]);
+    });
+
+    it("should treat a missing header as */*", () => {
+      expect(parseAccept(undefined)).toEqual([
+        { type: "*", subtype: "*", q: 1 },
+      ]);
+    });
+  });
+
+  describe("negotiate", () => {
+    it("should pick the highest q-value", () => {
+      expect(
+        negotiate("application/json;q=0.4, application/yaml", available)
+      ).toBe("application/yaml");
+    });
+
+    it("should prefer server order on ties", () => {
+      expect(negotiate("*/*", available)).toBe("application/json");
+      expect(negotiate("text/*", available)).toBe("text/plain");
+    });
+
+    it("should use the most specific matching range", () => {
+      expect(negotiate("text/*;q=0.9, text/html;q=0", available)).toBe(
+        "text/plain"
+      );
+    });
+
+    it("should return undefined when nothing is acceptable", () => {
+      expect(negotiate("image/png", available)).toBeUndefined();
+      expect(negotiate("*/*;q=0", available)).toBeUndefined();
+    });
+  });
+
+  describe("toYaml", () => {
+    it("should serialize nested data and quote ambiguous strings", () => {
+      const yaml = toYaml({
+        name: "Ada",
+        when: "2024-01-01T00:00:00.000Z",
+        flag: "true",
+        count: 3,
+        none: null,
+        skipped: undefined,
+        tags: ["a", "b"],
+        nested: { ok: true, list: [] },
+      });
+
+      expect(yaml).toBe(
+        [
+          "name: Ada",
+          'when: "2024-01-01T00:00:00.000Z"',
+          'flag: "true"',
+          "count: 3",
+          "none: null",
+          "tags:",
+          "  - a",
+          "  - b",
+          "nested:",
+          "  ok: true",
+          "  list: []",
+        ].join("\n")
+      );
+    });
+  });
+
+  describe("represent", () => {
+    const data = { message: "hi <b>", nested: { n: 1 } };
+    const eventAccepting = (accept: string) =>
+      createMockApiGatewayEvent({ headers: { accept } });
+
+    it("should serialize as JSON by default and vary on Accept", () => {
+      const result = represent(data, eventAccepting("*/*"));
+
+      expect(parseJsonResponse(result)).toEqual(data);
+      expect(result.headers!["vary"]).toBe("Accept");
+    });
+
+    it("should serialize as key/value text lines", () => {
+      const result = represent(data, eventAccepting("text/plain"));
+
+      expect(result.headers!["content-type"]).toBe("text/plain; charset=utf-8");
+      expect(result.body).toBe("message: hi <b>\nnested.n: 1");
+    });
+
+    it("should serialize as an escaped HTML table", () => {
+      const result = represent(data, eventAccepting("text/html"));
+
+      expect(result.headers!["content-type"]).toBe("text/html; charset=utf-8");
+      expect(result.body).toMatch(
+        /<tr>\s*<th[^>]*>message<\/th>\s*<td[^>]*>hi &lt;b&gt;<\/td>\s*<\/tr>/
+      );
+    });
+
+    it("should throw 406 listing what is available", () => {
+      expect(() =>
+        represent(data, eventAccepting("text/html"), ["application/json"])
+      ).toThrow(
+        expect.objectContaining({
+          status: 406,
+          extensions: { available: ["application/json"] },
+        })
+      );
+    });
+  });
+
+  describe("GET /api/info", () => {
+    it("should serve YAML when asked", async () => {
+      const result = await handler(
+        presets.apiInfo({ headers: { accept: "application/yaml" } })
+      );
+
+      expect(result.statusCode).toBe(200);
+      expect(result.headers!["content-type"]).toBe(
+        "application/yaml; charset=utf-8"
+      );
+      expect(result.body).toContain("message: Hello from /api/info\n");
+      expect(result.body).toContain("requestId: test-request-123\n");
+    });
+
+    it("should serve an HTML table to browsers", async () => {
+      const result = await handler(
+        presets.apiInfo({
+          headers: { accept: "text/html,application/xhtml+xml,*/*;q=0.8" },
+        })
+      );
+
+      expect(result.headers!["content-type"]).toBe("text/html; charset=utf-8");
+      expect(result.body).toContain("<table");
+    });
+
+    it("should return a problem+json 406 when nothing is acceptable", async () => {
+      const result = await handler(
+        presets.apiInfo({ headers: { accept: "image/png" } })
+      );
+
+      expect(result.statusCode).toBe(406);
+      expect(parseJsonResponse(result).available).toEqual(available);
+    });
+  });
+});
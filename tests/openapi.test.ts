@@ -0,0 +1,265 @@
+import { handler } from "../src/index";
+import { requireApiKey, requireAuth } from "../src/auth";
+import {
+  docsGroups,
+  openApiDocument,
+  openApiPath,
+  type OpenApiDocument,
+} from "../src/openapi";
+import { Router } from "../src/router";
+import { s, toJsonSchema } from "../src/schema";
+import { assetUrl } from "../src/static";
+import { createMockApiGatewayEvent, parseJsonResponse } from "./test-utils";
+
+const info = { title: "Test", version: "1.0.0" };
+
+describe("OpenAPI", () => {
+  describe("toJsonSchema", () => {
+    it("should describe nested schemas with constraints and defaults", () => {
+      const schema = s.object({
+        name: s.string({ minLength: 1, maxLength: 5, pattern: /^[a-z]+$/ }),
+        size: s.enum(["s", "m"] as const).optional(),
+        tags: s.array(s.integer({ min: 0, max: 9 })).default([]),
+      });
+
+      expect(toJsonSchema(schema)).toEqual({
+        type: "object",
+        properties: {
+          name: {
+            type: "string",
+            minLength: 1,
+            maxLength: 5,
+            pattern: "^[a-z]+$",
+          },
+          size: { type: "string", enum: ["s", "m"] },
+          tags: {
+            type: "array",
+            items: { type: "integer", minimum: 0, maximum: 9 },
+            default: [],
+          },
+        },
+        required: ["name"],
+      });
+    });
+  });
+
+  describe("openApiPath", () => {
+    it("should turn :params into {params}", () => {
+      expect(openApiPath("/api/items/:id/parts/:part")).toBe(
+        "/api/items/{id}/parts/{part}"
+      );
+    });
+  });
+
+  describe("openApiDocument", () => {
+    const router = new Router()
+      .use(requireApiKey({ optional: true }))
+      .get("/", { docs: { hidden: true }, handler: () => "home" })
+      .get("/files/*", () => "file")
+      .get("/items/:id", {
+        docs: {
+          summary: "Get an item",
+          tags: ["Items"],
+          response: s.object({ id: s.string() }),
+        },
+        schema: {
+          query: s.object({ expand: s.boolean().default(false) }),
+        },
+        handler: ({ params }) => ({ id: params.id }),
+      })
+      .post("/items", {
+        middleware: [requireAuth({ scopes: ["items:write"] })],
+        produces: ["application/json"],
+        schema: { body: s.object({ name: s.string() }) },
+        handler: ({ input }) => input.body,
+      })
+      .delete("/items/:id", () => ({}));
+
+    let document: OpenApiDocument;
+    beforeAll(() => {
+      document = openApiDocument(router, info);
+    });
+
+    it("should list documented routes by path and method", () => {
+      expect(document.openapi).toBe("3.1.0");
+      expect(document.info).toEqual(info);
+      expect(Object.keys(document.paths)).toEqual(["/items/{id}", "/items"]);
+      expect(Object.keys(document.paths["/items/{id}"])).toEqual([
+        "get",
+        "delete",
+      ]);
+    });
+
+    it("should describe parameters from the pattern and route schema", () => {
+      const operation = document.paths["/items/{id}"].get;
+
+      expect(operation).toMatchObject({
+        operationId: "getItemsId",
+        summary: "Get an item",
+        tags: ["Items"],
+      });
+      expect(operation.parameters).toEqual([
+        { name: "id", in: "path", required: true, schema: { type: "string" } },
+        {
+          name: "expand",
+          in: "query",
+          required: false,
+          schema: { type: "boolean", default: false },
+        },
+      ]);
+    });
+
+    it("should describe request bodies and response schemas", () => {
+      const get = document.paths["/items/{id}"].get;
+      const post = document.paths["/items"].post;
+
+      expect(get.responses["200"]).toMatchObject({
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              properties: { id: { type: "string" } },
+              required: ["id"],
+            },
+          },
+          "text/html": {},
+        },
+      });
+      expect(post.requestBody).toEqual({
+        required: true,
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              properties: { name: { type: "string" } },
+              required: ["name"],
+            },
+          },
+        },
+      });
+      expect(Object.keys(post.responses["200"] as object)).toEqual([
+        "description",
+        "content",
+      ]);
+      expect(
+        Object.keys((post.responses["200"] as { content: object }).content)
+      ).toEqual(["application/json"]);
+    });
+
+    it("should take auth requirements from the middleware", () => {
+      const get = document.paths["/items/{id}"].get;
+      const post = document.paths["/items"].post;
+      const remove = document.paths["/items/{id}"].delete;
+
+      expect(get.security).toEqual([{ apiKey: [] }, {}]);
+      expect(post.security).toEqual([
+        { apiKey: [], bearerAuth: ["items:write"] },
+        { bearerAuth: ["items:write"] },
+      ]);
+      expect(Object.keys(post.responses)).toEqual(
+        expect.arrayContaining(["400", "401", "403", "default"])
+      );
+      expect(Object.keys(remove.responses)).not.toContain("400");
+      expect(document.components.securitySchemes).toMatchObject({
+        bearerAuth: { type: "http", scheme: "bearer" },
+        apiKey: { type: "apiKey", in: "header", name: "x-api-key" },
+      });
+    });
+
+    it("should not document hidden or wildcard routes", () => {
+      expect(document.paths["/"]).toBeUndefined();
+      expect(
+        Object.keys(document.paths).some((path) => path.includes("*"))
+      ).toBe(false);
+    });
+  });
+
+  describe("docsGroups", () => {
+    it("should group operations by tag with a field per input", () => {
+      const router = new Router()
+        .get("/a/:id", {
+          docs: { tags: ["A"] },
+          schema: { query: s.object({ n: s.integer().default(2) }) },
+          handler: () => ({}),
+        })
+        .post("/b", {
+          middleware: [requireAuth()],
+          handler: () => ({}),
+        });
+
+      const groups = docsGroups(openApiDocument(router, info));
+
+      expect(groups.map((group) => group.tag)).toEqual(["A", "Other"]);
+      expect(groups[0].operations[0]).toMatchObject({
+        method: "GET",
+        path: "/a/{id}",
+        body: false,
+        fields: [
+          { name: "id", in: "path", required: true, value: "" },
+          { name: "n", in: "query", type: "integer", value: "2" },
+        ],
+      });
+      expect(groups[1].operations[0]).toMatchObject({
+        method: "POST",
+        body: true,
+        fields: [{ name: "authorization", in: "header" }],
+      });
+    });
+  });
+
+  describe("handler", () => {
+    function get(path: string) {
+      return handler(createMockApiGatewayEvent({ rawPath: path }));
+    }
+
+    it("should serve the document at /api/openapi.json", async () => {
+      const result = await get("/api/openapi.json");
+      const document = parseJsonResponse(result);
+
+      expect(result.statusCode).toBe(200);
+      expect(result.headers!["content-type"]).toBe(
+        "application/json; charset=utf-8"
+      );
+      expect(document.openapi).toBe("3.1.0");
+      expect(Object.keys(document.paths)).toEqual(
+        expect.arrayContaining([
+          "/healthz",
+          "/api/info",
+          "/api/hello/{name}",
+          "/api/me",
+          "/api/echo",
+        ])
+      );
+      expect(document.paths["/"]).toBeUndefined();
+      expect(document.paths["/api/me"].get.security).toEqual([
+        { bearerAuth: [] },
+      ]);
+      expect(document.paths["/api/echo"].post.requestBody).toBeDefined();
+    });
+
+    it("should render a form per route on /docs", async () => {
+      const result = await get("/docs");
+      const csp = String(result.headers!["content-security-policy"]);
+      const nonce = /'nonce-([^']+)'/.exec(csp)![1];
+
+      expect(result.statusCode).toBe(200);
+      expect(result.headers!["content-type"]).toBe("text/html; charset=utf-8");
+      expect(result.body).toContain(
+        'data-method="GET" data-path="/api/hello/{name}"'
+      );
+      expect(result.body).toContain('name="times" data-in="query" value="1"');
+      expect(result.body).toContain('placeholder="Bearer &lt;token&gt;"');
+      expect(result.body).toContain('data-method="POST" data-path="/api/echo"');
+      expect(result.body).toContain(
+        `<script nonce="${nonce}" src="${assetUrl("docs.js")}"`
+      );
+    });
+
+    it("should link the docs from the landing page", async () => {
+      const result = await get("/");
+
+      expect(result.body).toContain('href="/docs"');
+      expect(result.body).not.toContain("Call API");
+    });
+  });
+});
@@ -0,0 +1,258 @@
+import { handler } from "../src/index";
+import { hashApiKey } from "../src/auth";
+import { overrideConfig, resetConfig } from "../src/config";
+import { TooManyRequestsError } from "../src/errors";
+import {
+  MemoryRateLimitStore,
+  SharedRateLimitStore,
+  defaultStore,
+  rateLimit,
+  takeToken,
+  type BucketTable,
+  type RateLimitStore,
+  type VersionedBucket,
+} from "../src/ratelimit";
+import {
+  createMockApiGatewayEvent,
+  parseJsonResponse,
+  runMiddleware,
+} from "./test-utils";
+
+const policy = { capacity: 3, refillPerSecond: 0.5 };
+
+// Conditional writes as DynamoDB or Redis would do them
+function versionedTable(): BucketTable {
+  const rows = new Map<string, VersionedBucket>();
+  return {
+    async get(key) {
+      return rows.get(key);
+    },
+    async put(key, bucket, expectedVersion) {
+      if (rows.get(key)?.version !== expectedVersion) return false;
+      rows.set(key, { bucket, version: (expectedVersion ?? 0) + 1 });
+      return true;
+    },
+  };
+}
+
+describe("Rate Limiting", () => {
+  describe("takeToken", () => {
+    it("should start full and take one token per request", () => {
+      const first = takeToken(undefined, policy, 0);
+
+      expect(first.result).toEqual({
+        allowed: true,
+        remaining: 2,
+        retryAfterSeconds: 0,
+        resetSeconds: 2,
+      });
+      expect(first.bucket).toEqual({ tokens: 2, updatedAt: 0 });
+    });
+
+    it("should refuse an empty bucket and say when to retry", () => {
+      const empty = { tokens: 0.5, updatedAt: 0 };
+      const { result, bucket } = takeToken(empty, policy, 0);
+
+      expect(result.allowed).toBe(false);
+      expect(result.retryAfterSeconds).toBe(1);
+      expect(result.resetSeconds).toBe(5);
+      expect(bucket.tokens).toBe(0.5);
+    });
+
+    it("should refill with elapsed time up to the capacity", () => {
+      const empty = { tokens: 0, updatedAt: 0 };
+
+      expect(takeToken(empty, policy, 2000).result.allowed).toBe(true);
+      expect(takeToken(empty, policy, 60_000).result.remaining).toBe(2);
+    });
+  });
+
+  describe("MemoryRateLimitStore", () => {
+    it("should keep one bucket per key", async () => {
+      const store = new MemoryRateLimitStore();
+
+      for (let i = 0; i < 3; i++) await store.take("a", policy, 0);
+
+      expect((await store.take("a", policy, 0)).allowed).toBe(false);
+      expect((await store.take("b", policy, 0)).allowed).toBe(true);
+    });
+
+    it("should evict the least recently used key when full", async () => {
+      const store = new MemoryRateLimitStore(2);
+      for (let i = 0; i < 3; i++) await store.take("a", policy, 0);
+      await store.take("b", policy, 0);
+      await store.take("a", policy, 0);
+      await store.take("c", policy, 0);
+
+      // "b" was evicted and starts over; "a" is still empty
+      expect((await store.take("a", policy, 0)).allowed).toBe(false);
+      expect((await store.take("b", policy, 0)).remaining).toBe(2);
+    });
+  });
+
+  describe("SharedRateLimitStore", () => {
+    it("should share buckets between containers using one table", async () => {
+      const table = versionedTable();
+      const first = new SharedRateLimitStore(table);
+      const second = new SharedRateLimitStore(table);
+
+      await first.take("a", policy, 0);
+      await second.take("a", policy, 0);
+      await first.take("a", policy, 0);
+
+      expect((await second.take("a", policy, 0)).allowed).toBe(false);
+      expect((await second.take("b", policy, 0)).allowed).toBe(true);
+    });
+
+    it("should start over when another request wrote first", async () => {
+      const table = versionedTable();
+      const other = new SharedRateLimitStore(table);
+      let raced = false;
+      const store = new SharedRateLimitStore({
+        get: table.get,
+        async put(key, bucket, expectedVersion) {
+          if (!raced) {
+            raced = true;
+            await other.take(key, policy, 0);
+          }
+          return table.put(key, bucket, expectedVersion);
+        },
+      });
+
+      const result = await store.take("a", policy, 0);
+
+      expect(result).toMatchObject({ allowed: true, remaining: 1 });
+      expect((await table.get("a"))!.version).toBe(2);
+    });
+
+    it("should refuse a bucket that stays contended", async () => {
+      const put = jest.fn(async () => false);
+      const store = new SharedRateLimitStore(
+        { get: async () => undefined, put },
+        3
+      );
+
+      const result = await store.take("a", policy, 0);
+
+      expect(put).toHaveBeenCalledTimes(3);
+      expect(result).toMatchObject({ allowed: false, remaining: 0 });
+      expect(result.retryAfterSeconds).toBeGreaterThanOrEqual(1);
+    });
+  });
+
+  describe("rateLimit middleware", () => {
+    it("should add RateLimit headers to allowed responses", async () => {
+      const { result } = await runMiddleware(
+        rateLimit({ policy, store: new MemoryRateLimitStore() })
+      );
+
+      expect(result.headers).toMatchObject({
+        "ratelimit-limit": "3",
+        "ratelimit-remaining": "2",
+        "ratelimit-reset": "2",
+        "ratelimit-policy": "3;w=6",
+      });
+    });
+
+    it("should throw a 429 with Retry-After once the bucket is empty", async () => {
+      const middleware = rateLimit({
+        policy: { capacity: 1, refillPerSecond: 0.1 },
+        store: new MemoryRateLimitStore(),
+      });
+      await runMiddleware(middleware);
+
+      const refused = runMiddleware(middleware);
+
+      await expect(refused).rejects.toBeInstanceOf(TooManyRequestsError);
+      await expect(refused).rejects.toMatchObject({
+        status: 429,
+        headers: {
+          "retry-after": "10",
+          "ratelimit-limit": "1",
+          "ratelimit-remaining": "0",
+        },
+      });
+    });
+
+    it("should use a pluggable store and key function", async () => {
+      const take = jest.fn<ReturnType<RateLimitStore["take"]>, any[]>(
+        async () => ({
+          allowed: true,
+          remaining: 9,
+          retryAfterSeconds: 0,
+          resetSeconds: 1,
+        })
+      );
+
+      await runMiddleware(
+        rateLimit({ policy, store: { take }, key: (r) => `path:${r.path}` }),
+        createMockApiGatewayEvent({ rawPath: "/api/info" })
+      );
+
+      expect(take).toHaveBeenCalledWith(
+        "path:/api/info",
+        policy,
+        expect.any(Number)
+      );
+    });
+  });
+
+  describe("handler", () => {
+    beforeEach(() => {
+      overrideConfig({
+        rateLimit: { capacity: 2, refillPerSecond: 0.01 },
+        auth: { apiKeys: [{ name: "reporting", hash: hashApiKey("k-123") }] },
+      });
+    });
+
+    afterEach(() => {
+      resetConfig();
+      defaultStore.clear();
+    });
+
+    function info(sourceIp: string, headers: Record<string, string> = {}) {
+      return handler(
+        createMockApiGatewayEvent({ rawPath: "/api/info", sourceIp, headers })
+      );
+    }
+
+    it("should answer 429 problem+json per source IP", async () => {
+      await info("203.0.113.1");
+      await info("203.0.113.1");
+      const refused = await info("203.0.113.1");
+      const other = await info("203.0.113.2");
+
+      expect(refused.statusCode).toBe(429);
+      expect(refused.headers!["retry-after"]).toBe("100");
+      expect(refused.headers!["ratelimit-remaining"]).toBe("0");
+      expect(parseJsonResponse(refused).title).toBe("Too Many Requests");
+      expect(other.statusCode).toBe(200);
+      expect(other.headers!["ratelimit-remaining"]).toBe("1");
+    });
+
+    it("should give each API key its own bucket", async () => {
+      await info("203.0.113.1");
+      await info("203.0.113.1");
+      const keyed = await info("203.0.113.1", { "x-api-key": "k-123" });
+
+      expect(keyed.statusCode).toBe(200);
+      expect(keyed.headers!["ratelimit-remaining"]).toBe("1");
+    });
+
+    it("should refuse unknown API keys before counting", async () => {
+      const result = await info("203.0.113.1", { "x-api-key": "wrong" });
+
+      expect(result.statusCode).toBe(401);
+      expect(result.headers!["www-authenticate"]).toBe('ApiKey realm="api"');
+      expect(result.headers).not.toHaveProperty("ratelimit-remaining");
+    });
+
+    it("should do nothing when disabled", async () => {
+      overrideConfig({ rateLimit: { enabled: false } });
+
+      for (let i = 0; i < 3; i++) {
+        expect((await info("203.0.113.1")).statusCode).toBe(200);
+      }
+    });
+  });
+});
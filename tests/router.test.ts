@@ -0,0 +1,119 @@
+import type { APIGatewayProxyStructuredResultV2 } from "aws-lambda";
+import { Router, compilePattern, normalizePath } from "../src/router";
+import { resp } from "../src/response";
+import { Logger } from "../src/logger";
+import { Metrics } from "../src/metrics";
+import { Trace, newTraceId } from "../src/tracing";
+import { createMockRequest } from "./test-utils";
+
+const ok = () => resp(200, "ok", "text/plain");
+
+describe("Router", () => {
+  describe("compilePattern", () => {
+    it("should match static paths exactly", () => {
+      const match = compilePattern("/api/info");
+
+      expect(match("/api/info")).toEqual({});
+      expect(match("/api/info/extra")).toBeUndefined();
+      expect(match("/api")).toBeUndefined();
+    });
+
+    it("should extract named path params", () => {
+      const match = compilePattern("/api/items/:id/tags/:tag");
+
+      expect(match("/api/items/42/tags/new%20one")).toEqual({
+        id: "42",
+        tag: "new one",
+      });
+      expect(match("/api/items//tags/x")).toBeUndefined();
+    });
+
+    it("should capture the rest of the path for a trailing wildcard", () => {
+      const match = compilePattern("/static/*");
+
+      expect(match("/static/css/site.css")).toEqual({ "*": "css/site.css" });
+      expect(match("/static")).toEqual({ "*": "" });
+      expect(match("/other/site.css")).toBeUndefined();
+    });
+
+    it("should reject wildcards that are not the last segment", () => {
+      expect(() => compilePattern("/static/*/file")).toThrow();
+    });
+
+    it("should treat an empty path as the root", () => {
+      expect(normalizePath("")).toBe("/");
+      expect(compilePattern("/")("")).toEqual({});
+    });
+  });
+
+  describe("match", () => {
+    const router = new Router()
+      .get("/api/items/:id", ok)
+      .put("/api/items/:id", ok)
+      .post("/api/items", ok);
+
+    it("should find the route and its params", () => {
+      const match = router.match("PUT", "/api/items/7");
+
+      expect(match.status).toBe("found");
+      if (match.status === "found") {
+        expect(match.route.method).toBe("PUT");
+        expect(match.params).toEqual({ id: "7" });
+      }
+    });
+
+    it("should answer HEAD with the GET route", () => {
+      const match = router.match("HEAD", "/api/items/7");
+
+      expect(match.status).toBe("found");
+      if (match.status === "found") {
+        expect(match.route.method).toBe("GET");
+      }
+    });
+
+    it("should prefer an explicit HEAD route over the GET fallback", () => {
+      const explicit = new Router().get("/x", ok).add("HEAD", "/x", ok);
+      const match = explicit.match("HEAD", "/x");
+
+      expect(match.status === "found" && match.route.method).toBe("HEAD");
+    });
+
+    it("should report allowed methods when only the method is wrong", () => {
+      expect(router.match("DELETE", "/api/items/7")).toEqual({
+        status: "method-not-allowed",
+        allow: ["GET", "HEAD", "PUT"],
+      });
+    });
+
+    it("should report not found when no pattern matches", () => {
+      expect(router.match("GET", "/nope")).toEqual({ status: "not-found" });
+    });
+
+    it("should pass typed params to handlers", async () => {
+      const typed = new Router().get("/users/:userId/*", ({ params }) =>
+        resp(200, `${params.userId}:${params["*"]}`, "text/plain")
+      );
+      const match = typed.match("GET", "/users/u1/a/b");
+      if (match.status !== "found") throw new Error("expected a match");
+
+      const result = (await match.route.handler({
+        request: createMockRequest({ rawPath: "/users/u1/a/b" }),
+        method: "GET",
+        path: "/users/u1/a/b",
+        params: match.params,
+        body: { type: "none" },
+        input: {
+          params: match.params,
+          query: {},
+          headers: {},
+          body: undefined,
+        },
+        log: new Logger({}, { level: "silent" }),
+        metrics: new Metrics(),
+        span: new Trace({ traceId: newTraceId(), sampled: true }, "test").root,
+        signal: new AbortController().signal,
+      })) as APIGatewayProxyStructuredResultV2;
+      expect(result.body).toBe("u1:a/b");
+    });
+  });
+});
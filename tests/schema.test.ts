@@ -0,0 +1,204 @@
+import { handler } from "../src/index";
+import { validateInput } from "../src/router";
+import { ValidationError, s, validate } from "../src/schema";
+import {
+  createMockApiGatewayEvent,
+  parseJsonResponse,
+  presets,
+} from "./test-utils";
+
+describe("Schema Validation", () => {
+  describe("schema builders", () => {
+    it("should accept matching values", () => {
+      const schema = s.object({
+        name: s.string({ minLength: 2 }),
+        age: s.integer({ min: 0 }),
+        tags: s.array(s.enum(["a", "b"] as const)),
+      });
+
+      expect(validate(schema, { name: "Ada", age: 36, tags: ["a"] })).toEqual({
+        name: "Ada",
+        age: 36,
+        tags: ["a"],
+      });
+    });
+
+    it("should collect every issue with its field path", () => {
+      const schema = s.object({
+        name: s.string({ minLength: 2 }),
+        age: s.integer({ min: 0 }),
+        tags: s.array(s.enum(["a", "b"] as const)),
+      });
+
+      try {
+        validate(schema, { name: "A", age: -1.5, tags: ["c"] }, "body");
+        throw new Error("expected validation to fail");
+      } catch (err) {
+        expect(err).toBeInstanceOf(ValidationError);
+        expect((err as ValidationError).issues).toEqual([
+          { field: "body.name", message: "must be at least 2 chars" },
+          { field: "body.age", message: "must be an integer" },
+          { field: "body.age", message: "must be >= 0" },
+          { field: "body.tags[0]", message: "must be one of a, b" },
+        ]);
+      }
+    });
+
+    it("should report missing required keys and apply defaults", () => {
+      const schema = s.object({
+        id: s.string(),
+        limit: s.integer().default(10),
+        cursor: s.string().optional(),
+      });
+
+      expect(validate(schema, { id: "x" })).toEqual({ id: "x", limit: 10 });
+      expect(() => validate(schema, {})).toThrow(
+        expect.objectContaining({
+          issues: [{ field: "id", message: "is required" }],
+        })
+      );
+    });
+
+    it("should only coerce strings when asked to", () => {
+      const schema = s.object({ n: s.number(), flag: s.boolean() });
+
+      const coerced = validate(schema, { n: "4.5", flag: "true" }, "q", true);
+
+      expect(coerced).toEqual({ n: 4.5, flag: true });
+      expect(() => validate(schema, { n: "4.5", flag: "true" })).toThrow(
+        ValidationError
+      );
+      expect(() => validate(s.number(), "abc", "q", true)).toThrow(
+        ValidationError
+      );
+    });
+
+    it("should split comma-joined query values into arrays", () => {
+      expect(validate(s.array(s.integer()), "1,2,3", "ids", true)).toEqual([
+        1, 2, 3,
+      ]);
+    });
+
+    it("should drop keys the schema does not declare", () => {
+      const schema = s.object({ a: s.string() });
+
+      expect(validate(schema, { a: "1", b: "2" })).toEqual({ a: "1" });
+    });
+
+    it("should check every value of a record", () => {
+      const schema = s.record(s.array(s.string()));
+
+      expect(validate(schema, { a: ["x"], b: [] })).toEqual({
+        a: ["x"],
+        b: [],
+      });
+      expect(() => validate(schema, { a: "x" })).toThrow(ValidationError);
+    });
+
+    it("should accept the first matching variant of a union", () => {
+      const schema = s.union(s.literal(false), s.object({ max: s.integer() }));
+
+      expect(validate(schema, false)).toBe(false);
+      expect(validate(schema, { max: 3 })).toEqual({ max: 3 });
+    });
+
+    it("should report the closest variant when a union fails", () => {
+      const schema = s.union(s.literal(false), s.object({ max: s.integer() }));
+
+      const issues = (value: unknown) => {
+        try {
+          validate(schema, value, "limit");
+        } catch (err) {
+          return (err as ValidationError).issues;
+        }
+      };
+
+      expect(issues({ max: "x" })).toEqual([
+        { field: "limit.max", message: "expected number, got string" },
+      ]);
+      expect(issues("x")).toEqual([
+        { field: "limit", message: "expected false or object, got string" },
+      ]);
+    });
+  });
+
+  describe("validateInput", () => {
+    it("should lower-case header names before validating", () => {
+      const input = validateInput(
+        { headers: s.object({ "x-tenant": s.string() }) },
+        {
+          params: {},
+          headers: { "X-Tenant": "acme" },
+          body: { type: "none" },
+        }
+      );
+
+      expect(input.headers).toEqual({ "x-tenant": "acme" });
+    });
+
+    it("should require a body when the schema declares one", () => {
+      expect(() =>
+        validateInput(
+          { body: s.object({ a: s.string() }) },
+          { params: {}, body: { type: "none" } }
+        )
+      ).toThrow(
+        expect.objectContaining({
+          issues: [{ field: "body", message: "is required" }],
+        })
+      );
+    });
+
+    it("should coerce form bodies but not JSON bodies", () => {
+      const schema = { body: s.object({ n: s.integer() }) };
+
+      expect(
+        validateInput(schema, {
+          params: {},
+          body: { type: "form", value: { n: "3" } },
+        }).body
+      ).toEqual({ n: 3 });
+      expect(() =>
+        validateInput(schema, {
+          params: {},
+          body: { type: "json", value: { n: "3" } },
+        })
+      ).toThrow(ValidationError);
+    });
+  });
+
+  describe("GET /api/hello/:name", () => {
+    it("should coerce query values and apply defaults", async () => {
+      const event = createMockApiGatewayEvent({
+        rawPath: "/api/hello/ada",
+        queryStringParameters: { times: "2", shout: "true" },
+      });
+      const result = await handler(event);
+
+      expect(result.statusCode).toBe(200);
+      expect(parseJsonResponse(result).message).toBe("HELLO, ADA! HELLO, ADA!");
+    });
+
+    it("should use defaults when the query is empty", async () => {
+      const result = await handler(presets.notFound("/api/hello/ada"));
+
+      expect(parseJsonResponse(result).message).toBe("Hello, ada!");
+    });
+
+    it("should return one 400 listing every bad field", async () => {
+      const event = createMockApiGatewayEvent({
+        rawPath: "/api/hello/ada",
+        queryStringParameters: { times: "9", shout: "maybe" },
+      });
+      const result = await handler(event);
+
+      expect(result.statusCode).toBe(400);
+      const body = parseJsonResponse(result);
+      expect(body.title).toBe("Bad Request");
+      expect(body.issues).toEqual([
+        { field: "query.times", message: "must be <= 5" },
+        { field: "query.shout", message: "expected boolean, got string" },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,222 @@
+import { handler } from "../src/index";
+import { overrideConfig, resetConfig } from "../src/config";
+import { compose } from "../src/middleware";
+import { errorResponse, NotFoundError } from "../src/errors";
+import { resp } from "../src/response";
+import {
+  NONCE,
+  createNonce,
+  cspHash,
+  formatCsp,
+  formatPermissionsPolicy,
+  securityHeaderValues,
+  securityHeaders,
+  type SecurityPolicy,
+} from "../src/security";
+import {
+  createMockApiGatewayEvent,
+  createMockRequest,
+  runMiddleware,
+} from "./test-utils";
+
+const policy: SecurityPolicy = {
+  contentSecurityPolicy: { "default-src": ["'none'"] },
+  frameAncestors: ["'none'"],
+  hsts: { maxAge: 600, includeSubDomains: true, preload: false },
+  referrerPolicy: "no-referrer",
+  permissionsPolicy: { camera: [] },
+};
+
+describe("Security Headers", () => {
+  describe("formatting", () => {
+    it("should join CSP directives and fill in the nonce", () => {
+      expect(
+        formatCsp(
+          { "default-src": ["'self'"], "script-src": [NONCE, "'self'"] },
+          "abc"
+        )
+      ).toBe("default-src 'self'; script-src 'nonce-abc' 'self'");
+    });
+
+    it("should quote Permissions-Policy origins but not self", () => {
+      expect(
+        formatPermissionsPolicy({
+          camera: [],
+          geolocation: ["self", "https://maps.example"],
+        })
+      ).toBe('camera=(), geolocation=(self "https://maps.example")');
+    });
+
+    it("should create distinct 128-bit nonces", () => {
+      const nonce = createNonce();
+
+      expect(Buffer.from(nonce, "base64")).toHaveLength(16);
+      expect(createNonce()).not.toBe(nonce);
+    });
+  });
+
+  describe("securityHeaderValues", () => {
+    it("should set every header from the policy", () => {
+      expect(securityHeaderValues(policy, "n")).toEqual({
+        "content-security-policy": "default-src 'none'; frame-ancestors 'none'",
+        "x-frame-options": "DENY",
+        "strict-transport-security": "max-age=600; includeSubDomains",
+        "x-content-type-options": "nosniff",
+        "referrer-policy": "no-referrer",
+        "permissions-policy": "camera=()",
+      });
+    });
+
+    it("should leave out disabled headers", () => {
+      const headers = securityHeaderValues(
+        {
+          ...policy,
+          contentSecurityPolicy: false,
+          frameAncestors: [],
+          hsts: false,
+          permissionsPolicy: {},
+        },
+        "n"
+      );
+
+      expect(Object.keys(headers).sort()).toEqual([
+        "referrer-policy",
+        "x-content-type-options",
+      ]);
+    });
+
+    it("should keep frame-ancestors without the rest of the CSP", () => {
+      const headers = securityHeaderValues(
+        { ...policy, contentSecurityPolicy: false, frameAncestors: ["'self'"] },
+        "n"
+      );
+
+      expect(headers["content-security-policy"]).toBe("frame-ancestors 'self'");
+      expect(headers["x-frame-options"]).toBe("SAMEORIGIN");
+    });
+  });
+
+  describe("securityHeaders middleware", () => {
+    it("should put a nonce on the request and use it in the CSP", async () => {
+      const { result, request } = await runMiddleware(
+        securityHeaders({
+          contentSecurityPolicy: { "script-src": [NONCE] },
+        })
+      );
+
+      expect(request.cspNonce).toBeTruthy();
+      expect(result.headers!["content-security-policy"]).toBe(
+        `script-src 'nonce-${request.cspNonce}'; frame-ancestors 'none'`
+      );
+    });
+
+    it("should not overwrite headers the handler set", async () => {
+      const downstream = resp(200, "{}", "application/json");
+      downstream.headers!["referrer-policy"] = "origin";
+      const { result } = await runMiddleware(
+        securityHeaders(),
+        undefined,
+        downstream
+      );
+
+      expect(result.headers!["referrer-policy"]).toBe("origin");
+    });
+
+    it("should let an inner layer override the outer policy", async () => {
+      const run = compose(
+        [
+          securityHeaders(policy),
+          securityHeaders({ referrerPolicy: "same-origin" }),
+        ],
+        async () => {
+          throw new NotFoundError();
+        },
+        (err, request) => errorResponse(err, request)
+      );
+
+      const result = await run(createMockRequest());
+
+      expect(result.statusCode).toBe(404);
+      expect(result.headers!["referrer-policy"]).toBe("same-origin");
+      expect(result.headers!["content-security-policy"]).toBe(
+        "default-src 'none'; frame-ancestors 'none'"
+      );
+    });
+  });
+
+  describe("handler", () => {
+    afterEach(() => {
+      resetConfig();
+    });
+
+    it("should give API responses the strict default CSP", async () => {
+      const result = await handler(
+        createMockApiGatewayEvent({ rawPath: "/api/info" })
+      );
+
+      expect(result.headers).toMatchObject({
+        "content-security-policy": expect.stringMatching(
+          /^default-src 'none'; style-src 'nonce-[\w+/=]+'; base-uri 'none'; form-action 'none'; frame-ancestors 'none'$/
+        ),
+        "strict-transport-security": "max-age=31536000; includeSubDomains",
+        "x-content-type-options": "nosniff",
+        "x-frame-options": "DENY",
+        "referrer-policy": "no-referrer",
+      });
+    });
+
+    it("should add the headers to error responses", async () => {
+      const result = await handler(
+        createMockApiGatewayEvent({ rawPath: "/missing" })
+      );
+
+      expect(result.statusCode).toBe(404);
+      expect(result.headers!["content-security-policy"]).toContain(
+        "default-src 'none'"
+      );
+    });
+
+    it("should allow the page's scripts by nonce only", async () => {
+      const result = await handler(
+        createMockApiGatewayEvent({ rawPath: "/docs" })
+      );
+      const csp = String(result.headers!["content-security-policy"]);
+      const nonce = /'nonce-([^']+)'/.exec(csp)![1];
+
+      expect(csp).toContain(`script-src 'nonce-${nonce}';`);
+      expect(result.body!.match(/<script nonce="([^"]+)"/g)).toEqual([
+        `<script nonce="${nonce}"`,
+      ]);
+    });
+
+    it("should allow the home page's styles by hash only", async () => {
+      const result = await handler(createMockApiGatewayEvent({ rawPath: "/" }));
+      const csp = String(result.headers!["content-security-policy"]);
+      const styles = /<style>([\s\S]*?)<\/style>/.exec(result.body!)![1];
+
+      expect(csp).toContain(`script-src 'none'; style-src ${cspHash(styles)};`);
+      expect(csp).not.toContain("'nonce-");
+    });
+
+    it("should use a new nonce for every response", async () => {
+      const event = createMockApiGatewayEvent({ rawPath: "/docs" });
+      const first = await handler(event);
+      const second = await handler(event);
+
+      expect(first.headers!["content-security-policy"]).not.toBe(
+        second.headers!["content-security-policy"]
+      );
+    });
+
+    it("should follow config changes", async () => {
+      overrideConfig({ security: { hsts: false, referrerPolicy: "origin" } });
+
+      const result = await handler(
+        createMockApiGatewayEvent({ rawPath: "/api/info" })
+      );
+
+      expect(result.headers).not.toHaveProperty("strict-transport-security");
+      expect(result.headers!["referrer-policy"]).toBe("origin");
+    });
+  });
+});
@@ -0,0 +1,3 @@
+// Runs before every test file (setupFiles in jest.config.js), ahead of
+// anything that loads the config. Tests that look at logs set a level.
+process.env.LOG_LEVEL ??= "silent";
@@ -0,0 +1,7 @@
+import { useMetricsSink } from "../src/metrics";
+import { useSpanExporter } from "../src/tracing";
+
+// Runs before every test file, after setup-env.ts. Keeps Jest output
+// readable: tests that look at metrics or spans install their own.
+useMetricsSink(() => {});
+useSpanExporter({ export() {} });
@@ -0,0 +1,164 @@
+import {
+  mkdtempSync,
+  mkdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { handler } from "../src/index";
+import { computeEtag } from "../src/cache";
+import {
+  assetUrl,
+  contentTypeFor,
+  hashedName,
+  manifest,
+  readAssets,
+} from "../src/static";
+import { createMockApiGatewayEvent } from "./test-utils";
+
+describe("Static Assets", () => {
+  describe("hashedName", () => {
+    it("should put a content hash before the extension", () => {
+      expect(hashedName("css/app.css", Buffer.from("body{}"))).toMatch(
+        /^css\/app\.[0-9a-f]{8}\.css$/
+      );
+      expect(hashedName("LICENSE", Buffer.from("x"))).toMatch(
+        /^LICENSE\.[0-9a-f]{8}$/
+      );
+    });
+
+    it("should change when the contents change", () => {
+      expect(hashedName("a.js", Buffer.from("1"))).not.toBe(
+        hashedName("a.js", Buffer.from("2"))
+      );
+    });
+  });
+
+  describe("contentTypeFor", () => {
+    it("should map known extensions and fall back to octet-stream", () => {
+      expect(contentTypeFor("app.CSS")).toBe("text/css; charset=utf-8");
+      expect(contentTypeFor("favicon.ico")).toBe("image/x-icon");
+      expect(contentTypeFor("data.bin")).toBe("application/octet-stream");
+    });
+  });
+
+  describe("readAssets", () => {
+    let dir: string;
+    beforeAll(() => {
+      dir = mkdtempSync(join(tmpdir(), "assets-"));
+      mkdirSync(join(dir, "img"));
+      mkdirSync(join(dir, ".cache"));
+      writeFileSync(join(dir, "app.js"), "console.log(1)");
+      writeFileSync(join(dir, "img", "dot.png"), Buffer.from([0x89, 0x50]));
+      writeFileSync(join(dir, ".cache", "skip.txt"), "x");
+    });
+    afterAll(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should read nested files with hashed URLs, skipping dotfiles", () => {
+      const assets = readAssets(dir);
+
+      expect(assets.map((asset) => asset.name)).toEqual([
+        "app.js",
+        "img/dot.png",
+      ]);
+      expect(assets[1]).toEqual({
+        name: "img/dot.png",
+        url: expect.stringMatching(/^\/static\/img\/dot\.[0-9a-f]{8}\.png$/),
+        contentType: "image/png",
+        etag: computeEtag("iVA=", true),
+        body: "iVA=",
+      });
+    });
+
+    it("should return nothing for a missing directory", () => {
+      expect(readAssets(join(dir, "missing"))).toEqual([]);
+    });
+  });
+
+  describe("manifest", () => {
+    it("should list the files under assets/", () => {
+      expect(Object.keys(manifest)).toEqual(
+        expect.arrayContaining(["favicon.ico", "favicon.svg", "robots.txt"])
+      );
+      expect(assetUrl("favicon.svg")).toMatch(
+        /^\/static\/favicon\.[0-9a-f]{8}\.svg$/
+      );
+    });
+
+    it("should refuse unknown assets", () => {
+      expect(() => assetUrl("missing.css")).toThrow(
+        'Unknown asset "missing.css"'
+      );
+    });
+  });
+
+  describe("handler", () => {
+    function get(path: string, headers: Record<string, string> = {}) {
+      return handler(createMockApiGatewayEvent({ rawPath: path, headers }));
+    }
+
+    it("should serve hashed URLs as immutable", async () => {
+      const result = await get(assetUrl("favicon.svg"));
+
+      expect(result.statusCode).toBe(200);
+      expect(result.headers).toMatchObject({
+        "content-type": "image/svg+xml",
+        "cache-control": "public, max-age=31536000, immutable",
+        etag: expect.stringMatching(/^"[\w-]+"$/),
+      });
+      expect(result.body).toBe(readFileSync("assets/favicon.svg", "utf8"));
+    });
+
+    it("should answer a matching If-None-Match with 304", async () => {
+      const url = assetUrl("favicon.svg");
+      const first = await get(url);
+      const repeat = await get(url, {
+        "if-none-match": String(first.headers!["etag"]),
+      });
+
+      expect(repeat.statusCode).toBe(304);
+      expect(repeat.body).toBe("");
+    });
+
+    it("should 404 unhashed and stale URLs without caching", async () => {
+      const plain = await get("/static/favicon.svg");
+      const stale = await get("/static/favicon.00000000.svg");
+
+      expect(plain.statusCode).toBe(404);
+      expect(stale.statusCode).toBe(404);
+      expect(stale.headers!["cache-control"]).toBe("no-store");
+    });
+
+    it("should answer /favicon.ico with the icon bytes", async () => {
+      const result = await get("/favicon.ico");
+
+      expect(result.statusCode).toBe(200);
+      expect(result.headers!["content-type"]).toBe("image/x-icon");
+      expect(result.headers!["cache-control"]).toBe("public, max-age=86400");
+      expect(result.isBase64Encoded).toBe(true);
+      expect(Buffer.from(result.body!, "base64")).toEqual(
+        readFileSync("assets/favicon.ico")
+      );
+    });
+
+    it("should answer /robots.txt", async () => {
+      const result = await get("/robots.txt");
+
+      expect(result.statusCode).toBe(200);
+      expect(result.headers!["content-type"]).toBe("text/plain; charset=utf-8");
+      expect(result.body).toContain("User-agent: *");
+    });
+
+    it("should link the hashed favicon from the layout", async () => {
+      const result = await get("/");
+
+      expect(result.body).toContain(
+        `<link rel="icon" href="${assetUrl("favicon.svg")}"`
+      );
+    });
+  });
+});
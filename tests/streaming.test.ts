@@ -0,0 +1,248 @@
+import { config } from "../src/config";
+import { handler, streamHandler } from "../src/index";
+import { streamResp } from "../src/response";
+import { formatEvent, wait } from "../src/sse";
+import {
+  METADATA_DELIMITER,
+  ResponseSink,
+  bufferResponse,
+  isStreamingHandler,
+  writeResponse,
+} from "../src/streaming";
+import {
+  createMockApiGatewayEvent,
+  createMockContext,
+  invokeStreaming,
+  parseServerSentEvents,
+} from "./test-utils";
+
+function events(query: Record<string, string>) {
+  return createMockApiGatewayEvent({
+    rawPath: "/api/events",
+    queryStringParameters: query,
+  });
+}
+
+describe("Response Streaming", () => {
+  describe("formatEvent", () => {
+    it("should write fields and one data line per line", () => {
+      expect(
+        formatEvent({ event: "note", id: "7", retry: 500, data: "a\nb" })
+      ).toBe("event: note\nid: 7\nretry: 500\ndata: a\ndata: b\n\n");
+    });
+
+    it("should send non-string data as JSON", () => {
+      expect(formatEvent({ data: { ok: true } })).toBe('data: {"ok":true}\n\n');
+    });
+  });
+
+  describe("wait", () => {
+    it("should return early when the signal aborts", async () => {
+      const controller = new AbortController();
+      const started = Date.now();
+      setTimeout(() => controller.abort(), 10);
+
+      await wait(10_000, controller.signal);
+
+      expect(Date.now() - started).toBeLessThan(1000);
+    });
+  });
+
+  describe("ResponseSink", () => {
+    it("should split the metadata prelude from the body", async () => {
+      const chunks: string[] = [];
+      const sink = new ResponseSink({
+        onMetadata: () => {},
+        onChunk: (chunk) => chunks.push(chunk.toString()),
+      });
+
+      sink.write('{"statusCode":201,"headers":{"a":"b"}}');
+      sink.write(Buffer.concat([METADATA_DELIMITER, Buffer.from("one")]));
+      sink.end("two");
+      await new Promise((resolve) => sink.on("finish", resolve));
+
+      expect(sink.metadata).toEqual({ statusCode: 201, headers: { a: "b" } });
+      expect(chunks).toEqual(["one", "two"]);
+    });
+  });
+
+  describe("bufferResponse", () => {
+    it("should collect a streamed body", async () => {
+      const result = await bufferResponse(
+        streamResp(200, "text/plain", async (writer) => {
+          await writer.write("a");
+          await writer.write("b");
+        })
+      );
+
+      expect(result.body).toBe("ab");
+      expect(result.stream).toBeUndefined();
+    });
+
+    it("should keep what was written before the producer failed", async () => {
+      const onError = jest.fn();
+      const result = await bufferResponse(
+        streamResp(200, "text/plain", async (writer) => {
+          await writer.write("partial");
+          throw new Error("boom");
+        }),
+        undefined,
+        onError
+      );
+
+      expect(result.body).toBe("partial");
+      expect(onError).toHaveBeenCalledWith(new Error("boom"));
+    });
+  });
+
+  describe("writeResponse", () => {
+    it("should send buffered responses in one piece", async () => {
+      const chunks: Buffer[] = [];
+      const sink = new ResponseSink({
+        onMetadata: () => {},
+        onChunk: (chunk) => chunks.push(chunk),
+      });
+
+      await writeResponse(
+        {
+          statusCode: 200,
+          headers: { "content-type": "image/png" },
+          body: Buffer.from([1, 2, 3]).toString("base64"),
+          isBase64Encoded: true,
+          cookies: ["a=1"],
+        },
+        sink
+      );
+
+      expect(sink.metadata).toEqual({
+        statusCode: 200,
+        headers: { "content-type": "image/png" },
+        cookies: ["a=1"],
+      });
+      expect(Buffer.concat(chunks)).toEqual(Buffer.from([1, 2, 3]));
+    });
+  });
+
+  describe("streamHandler", () => {
+    it("should be marked as a streaming handler", () => {
+      expect(isStreamingHandler(streamHandler)).toBe(true);
+      expect(isStreamingHandler(handler)).toBe(false);
+    });
+
+    it("should send ordinary routes with the same headers as handler", async () => {
+      const event = createMockApiGatewayEvent({ rawPath: "/healthz" });
+      const buffered = await handler(event);
+      const streamed = await invokeStreaming(streamHandler, event);
+
+      expect(streamed.statusCode).toBe(200);
+      expect(streamed.headers["content-type"]).toBe(
+        buffered.headers!["content-type"]
+      );
+      expect(JSON.parse(streamed.body)).toEqual({ status: "ok" });
+    });
+
+    it("should stream error responses", async () => {
+      const streamed = await invokeStreaming(
+        streamHandler,
+        events({ limit: "0" })
+      );
+
+      expect(streamed.statusCode).toBe(400);
+      expect(streamed.headers["content-type"]).toMatch(
+        /^application\/problem\+json/
+      );
+    });
+  });
+
+  describe("handler", () => {
+    it("should stream status events, one chunk each", async () => {
+      const streamed = await invokeStreaming(
+        streamHandler,
+        events({ interval: "100", limit: "3" })
+      );
+      const messages = parseServerSentEvents(streamed.body);
+
+      expect(streamed.statusCode).toBe(200);
+      expect(streamed.headers).toMatchObject({
+        "content-type": "text/event-stream; charset=utf-8",
+        "cache-control": "no-store",
+      });
+      expect(streamed.headers["content-encoding"]).toBeUndefined();
+      expect(streamed.headers["etag"]).toBeUndefined();
+      expect(streamed.chunks).toHaveLength(4);
+      expect(messages.map((message) => message.event)).toEqual([
+        "status",
+        "status",
+        "status",
+        "end",
+      ]);
+      expect(messages[0]).toMatchObject({
+        id: "1",
+        retry: "100",
+        data: { seq: 1, remainingMs: 30000 },
+      });
+      expect(messages[3].data).toEqual({ reason: "complete" });
+    });
+
+    it("should stop before the invocation deadline", async () => {
+      const remaining = config.streaming.deadlineMarginMs + 250;
+      const started = Date.now();
+      const streamed = await invokeStreaming(
+        streamHandler,
+        events({ interval: "100", limit: "1000" }),
+        {
+          context: createMockContext({
+            getRemainingTimeInMillis: () => remaining,
+          }),
+        }
+      );
+      const messages = parseServerSentEvents(streamed.body);
+
+      expect(Date.now() - started).toBeLessThan(2000);
+      expect(messages.length).toBeGreaterThan(1);
+      expect(messages.length).toBeLessThan(10);
+      expect(messages[messages.length - 1]).toEqual({
+        event: "end",
+        data: { reason: "deadline" },
+      });
+    });
+
+    it("should stop writing when the client disconnects", async () => {
+      const streamed = await invokeStreaming(
+        streamHandler,
+        events({ interval: "100", limit: "1000" }),
+        { disconnectAfter: 2 }
+      );
+
+      expect(streamed.chunks).toHaveLength(2);
+      expect(streamed.body).not.toContain("event: end");
+    });
+
+    it("should buffer the events under the buffered entry point", async () => {
+      const result = await handler(events({ interval: "100", limit: "2" }));
+      const messages = parseServerSentEvents(result.body!);
+
+      expect(result.statusCode).toBe(200);
+      expect(messages.map((message) => message.event)).toEqual([
+        "status",
+        "status",
+        "end",
+      ]);
+      expect(result.headers!["etag"]).toBeUndefined();
+    });
+
+    it("should answer HEAD without running the producer", async () => {
+      // A producer that ran would take 1000 intervals
+      const result = await handler(
+        createMockApiGatewayEvent({
+          rawPath: "/api/events",
+          method: "HEAD",
+          queryStringParameters: { limit: "1000" },
+        })
+      );
+
+      expect(result.statusCode).toBe(200);
+      expect(result.body).toBe("");
+    });
+  });
+});
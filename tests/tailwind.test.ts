@@ -0,0 +1,39 @@
+import { handler } from "../src/index";
+import { compileCss } from "../src/tailwind";
+import { layoutStylesHash } from "../src/views";
+import { createMockApiGatewayEvent } from "./test-utils";
+
+describe("Tailwind", () => {
+  describe("compileCss", () => {
+    let css: string;
+    beforeAll(async () => {
+      css = await compileCss("src/styles.css");
+    });
+
+    it("should keep only the classes used under src/", () => {
+      expect(css).toContain(".bg-gray-50");
+      expect(css).toContain(".max-w-2xl");
+      expect(css).not.toContain(".bg-purple-900");
+      expect(css).not.toContain("@tailwind");
+    });
+
+    it("should minify on request", async () => {
+      const minified = await compileCss("src/styles.css", { minify: true });
+
+      expect(minified).toContain(".bg-gray-50{");
+      expect(minified.length).toBeLessThan(css.length);
+    });
+  });
+
+  describe("handler", () => {
+    it("should inline the styles instead of loading the CDN", async () => {
+      const result = await handler(createMockApiGatewayEvent({ rawPath: "/" }));
+
+      expect(result.body).not.toContain("cdn.tailwindcss.com");
+      expect(result.body).toContain("<style>");
+      expect(result.headers!["content-security-policy"]).toContain(
+        `style-src ${layoutStylesHash}`
+      );
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { handler } from "../src/index";
+import { TemplateError, compile } from "../src/template";
+import { homePage, renderPage } from "../src/views";
+import { createMockApiGatewayEvent } from "./test-utils";
+
+describe("Templates", () => {
+  describe("compile", () => {
+    it("should escape values unless they use triple braces", () => {
+      const template = compile<{ name: string }>(
+        "<p>{{ name }}</p><div>{{{ name }}}</div>"
+      );
+
+      expect(template({ name: `<b>"Tom" & 'Jerry'</b>` })).toBe(
+        "<p>&lt;b&gt;&quot;Tom&quot; &amp; &#39;Jerry&#39;&lt;/b&gt;</p>" +
+          `<div><b>"Tom" & 'Jerry'</b></div>`
+      );
+    });
+
+    it("should read dotted paths and skip missing values", () => {
+      const template = compile<{ user: { name: string }; missing?: string }>(
+        "{{ user.name }}|{{ missing }}|{{ user.name.first }}"
+      );
+
+      expect(template({ user: { name: "ada" } })).toBe("ada||");
+    });
+
+    it("should render if/else blocks", () => {
+      const template = compile<{ items: string[]; admin: boolean }>(
+        "{{#if admin}}admin{{else}}guest{{/if}} {{#if items}}some{{else}}none{{/if}}"
+      );
+
+      expect(template({ admin: true, items: [] })).toBe("admin none");
+      expect(template({ admin: false, items: ["a"] })).toBe("guest some");
+    });
+
+    it("should loop with each, falling back to outer props", () => {
+      const template = compile<{ sep: string; tags: string[] }>(
+        "{{#each tags}}{{ this }}{{ sep }}{{/each}}"
+      );
+      const rows = compile<{ rows: { key: string }[]; key: string }>(
+        "{{#each rows}}<{{ key }}>{{/each}}"
+      );
+
+      expect(template({ sep: ";", tags: ["a", "<b>"] })).toBe("a;&lt;b&gt;;");
+      expect(rows({ key: "outer", rows: [{ key: "x" }, { key: "y" }] })).toBe(
+        "<x><y>"
+      );
+    });
+
+    it("should include partials with the same props", () => {
+      const template = compile<{ title: string }>(
+        "<main>{{> header }}</main>",
+        {
+          partials: {
+            header: "<h1>{{ title }}</h1>{{> badge }}",
+            badge: "<span>new</span>",
+          },
+        }
+      );
+
+      expect(template({ title: "Hi" })).toBe(
+        "<main><h1>Hi</h1><span>new</span></main>"
+      );
+    });
+
+    it("should report syntax errors with the template name and line", () => {
+      expect(() => compile("a\n{{ 1 + 1 }}", { name: "page" })).toThrow(
+        new TemplateError("page:2: Unknown tag {{1 + 1}}")
+      );
+      expect(() => compile("{{#if a}}x", { name: "page" })).toThrow(
+        "page:1: Unclosed {{#if}}"
+      );
+      expect(() => compile("{{#each a}}{{/if}}", { name: "page" })).toThrow(
+        "page:1: Unexpected {{/if}}"
+      );
+      expect(() => compile("{{else}}", { name: "page" })).toThrow(
+        "page:1: {{else}} outside {{#if}}"
+      );
+    });
+
+    it("should call helpers and escape what they return", () => {
+      const template = compile<{}>('<a href="{{ link "a b" }}">', {
+        helpers: { link: (arg) => `/x?q=${arg}&y="1"` },
+      });
+
+      expect(template({})).toBe('<a href="/x?q=a b&amp;y=&quot;1&quot;">');
+      expect(() => compile('{{ nope "x" }}', { name: "page" })).toThrow(
+        'page:1: Unknown helper "nope"'
+      );
+    });
+
+    it("should refuse unknown partials at compile time", () => {
+      expect(() =>
+        compile("{{> nav }}", {
+          name: "page",
+          partials: { nav: "{{> logo }}" },
+        })
+      ).toThrow(new TemplateError('nav: Unknown partial "logo"'));
+    });
+  });
+
+  describe("renderPage", () => {
+    it("should wrap the page in the layout with header and footer", () => {
+      const html = renderPage(homePage, { title: "A & B", nonce: "abc" });
+
+      expect(html).toMatch(/^<!doctype html>/);
+      expect(html).toContain("<title>A &amp; B</title>");
+      expect(html).toContain('<style nonce="abc">');
+      expect(html).toContain("<nav");
+      expect(html).toContain("Source code available at");
+    });
+
+    it("should leave the nonce out of the layout without one", () => {
+      expect(renderPage(homePage, { title: "Home" })).toContain("<style>");
+    });
+  });
+
+  describe("handler", () => {
+    it("should render HTML error pages with the shared layout", async () => {
+      const result = await handler(
+        createMockApiGatewayEvent({
+          rawPath: "/missing",
+          headers: { accept: "text/html" },
+        })
+      );
+      const csp = String(result.headers!["content-security-policy"]);
+      const nonce = /'nonce-([^']+)'/.exec(csp)![1];
+
+      expect(result.statusCode).toBe(404);
+      expect(result.body).toContain("404 Not Found</h1>");
+      expect(result.body).toContain("No route matches /missing");
+      expect(result.body).toContain("<nav");
+      expect(result.body).toContain(`<style nonce="${nonce}">`);
+    });
+  });
+});
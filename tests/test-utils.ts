@@ -1,4 +1,14 @@
 import type { APIGatewayProxyEventV2 } from "aws-lambda";
+import { createHmac, sign, type KeyObject } from "crypto";
+import { toHttpRequest } from "../src/adapters";
+import type { HttpRequest, LambdaEvent } from "../src/event";
+import type { Middleware } from "../src/middleware";
+import { resp, type HttpResponse } from "../src/response";
+import {
+  ResponseSink,
+  type ResponseMetadata,
+  type StreamingHandler,
+} from "../src/streaming";
 
 /**
  * Test utilities for creating mock AWS Lambda events and contexts
@@ -70,6 +80,14 @@ export function createMockApiGatewayEvent(options: MockEventOptions = {}): any {
   };
 }
 
+/**
+ * Creates a normalized request, for testing modules that work on
+ * HttpRequest rather than raw Lambda events
+ */
+export function createMockRequest(options: MockEventOptions = {}): HttpRequest {
+  return toHttpRequest(createMockApiGatewayEvent(options));
+}
+
 /**
  * Creates a mock Lambda context for testing
  */
@@ -144,6 +162,135 @@ export const presets = {
     }),
 };
 
+type Downstream =
+  | HttpResponse
+  | ((request: HttpRequest) => HttpResponse | Promise<HttpResponse>);
+
+export interface MiddlewareRun {
+  result: HttpResponse;
+  /** The request the middleware saw, normalized from the event */
+  request: HttpRequest;
+  /** Whether the middleware called next() rather than answering itself */
+  calledNext: boolean;
+}
+
+/**
+ * Runs a single middleware against a mock event. `downstream` stands in for
+ * the rest of the pipeline: a fixed response or a function producing one.
+ */
+export async function runMiddleware(
+  middleware: Middleware,
+  event: LambdaEvent = createMockApiGatewayEvent(),
+  downstream: Downstream = resp(200, "{}", "application/json")
+): Promise<MiddlewareRun> {
+  const request = toHttpRequest(event);
+  let calledNext = false;
+  const result = await middleware(request, async () => {
+    calledNext = true;
+    return typeof downstream === "function" ? downstream(request) : downstream;
+  });
+  return { result, request, calledNext };
+}
+
+export type SigningKey =
+  | { alg: "HS256"; secret: string }
+  | { alg: "RS256" | "ES256"; privateKey: KeyObject; kid?: string };
+
+/**
+ * Signs a JWT for auth tests. Times are seconds since the epoch, as in
+ * real tokens.
+ */
+export function signJwt(
+  claims: Record<string, unknown>,
+  key: SigningKey
+): string {
+  const header = {
+    alg: key.alg,
+    typ: "JWT",
+    ...("kid" in key && { kid: key.kid }),
+  };
+  const encode = (value: object) =>
+    Buffer.from(JSON.stringify(value)).toString("base64url");
+  const input = `${encode(header)}.${encode(claims)}`;
+
+  const signature =
+    key.alg === "HS256"
+      ? createHmac("sha256", key.secret).update(input).digest()
+      : sign("sha256", Buffer.from(input), {
+          key: key.privateKey,
+          dsaEncoding: "ieee-p1363",
+        });
+  return `${input}.${signature.toString("base64url")}`;
+}
+
+export interface StreamedResponse extends ResponseMetadata {
+  /** Body chunks in the order they were written */
+  chunks: string[];
+  body: string;
+}
+
+export interface StreamOptions {
+  context?: any;
+  /** Close the stream after this many body chunks, like a client leaving */
+  disconnectAfter?: number;
+}
+
+/**
+ * Invokes a streaming handler with a mock event and collects what it
+ * writes, split into metadata and body chunks as a Function URL sees it
+ */
+export async function invokeStreaming(
+  handler: StreamingHandler,
+  event: LambdaEvent = createMockApiGatewayEvent(),
+  options: StreamOptions = {}
+): Promise<StreamedResponse> {
+  const chunks: string[] = [];
+  const sink = new ResponseSink({
+    onMetadata: () => {},
+    onChunk: (chunk) => {
+      chunks.push(chunk.toString("utf8"));
+      if (chunks.length === options.disconnectAfter) sink.destroy();
+    },
+  });
+  await handler(event, sink, options.context || createMockContext());
+  return {
+    ...sink.metadata!,
+    chunks,
+    body: chunks.join(""),
+  };
+}
+
+export interface ParsedEvent {
+  event?: string;
+  id?: string;
+  retry?: string;
+  data: unknown;
+}
+
+/**
+ * Parses a text/event-stream body into its events. JSON data is parsed.
+ */
+export function parseServerSentEvents(body: string): ParsedEvent[] {
+  return body
+    .split("\n\n")
+    .filter(Boolean)
+    .map((block) => {
+      const fields: Record<string, string> = {};
+      for (const line of block.split("\n")) {
+        const [, name, value] = /^(\w+): ?(.*)$/.exec(line) || [];
+        if (!name) continue;
+        fields[name] = name in fields ? `${fields[name]}\n${value}` : value;
+      }
+      let data: unknown = fields.data;
+      try {
+        data = JSON.parse(fields.data);
+      } catch {
+        // Plain text data
+      }
+      return { ...fields, data };
+    });
+}
+
 /**
  * Helper to assert Lambda response structure
  */
@@ -161,7 +308,9 @@ export function expectValidLambdaResponse(response: any) {
  */
 export function parseJsonResponse(response: any) {
   expectValidLambdaResponse(response);
-  expect(response.headers!["content-type"]).toContain("application/json");
+  expect(response.headers!["content-type"]).toMatch(
+    /^application\/(problem\+)?json/
+  );
   return JSON.parse(response.body!);
 }
 
@@ -0,0 +1,7 @@
+// Loads stylesheets and templates as their source text, like the build's
+// text loader. Tailwind itself only runs at build time.
+module.exports = {
+  process(source) {
+    return { code: `module.exports = ${JSON.stringify(source)};` };
+  },
+};
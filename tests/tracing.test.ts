@@ -0,0 +1,292 @@
+import { overrideConfig, resetConfig } from "../src/config";
+import { handler, streamHandler } from "../src/index";
+import {
+  ConsoleSpanExporter,
+  InMemorySpanExporter,
+  Trace,
+  extractTraceContext,
+  newTraceId,
+  parseTraceparent,
+  parseXRayHeader,
+  toXRayTraceId,
+  useSpanExporter,
+} from "../src/tracing";
+import { createMockApiGatewayEvent, invokeStreaming } from "./test-utils";
+
+const TRACE_ID = "4bf92f3577b34da6a3ce929d0e0e4736";
+const PARENT_ID = "00f067aa0ba902b7";
+
+describe("Tracing", () => {
+  let exporter: InMemorySpanExporter;
+
+  beforeEach(() => {
+    exporter = new InMemorySpanExporter();
+    useSpanExporter(exporter);
+  });
+
+  afterEach(() => {
+    useSpanExporter();
+    resetConfig();
+    jest.restoreAllMocks();
+  });
+
+  describe("parseTraceparent", () => {
+    it("should read the trace, parent and sampled flag", () => {
+      expect(parseTraceparent(`00-${TRACE_ID}-${PARENT_ID}-01`)).toEqual({
+        traceId: TRACE_ID,
+        parentId: PARENT_ID,
+        sampled: true,
+      });
+      expect(parseTraceparent(`00-${TRACE_ID}-${PARENT_ID}-00`)?.sampled).toBe(
+        false
+      );
+    });
+
+    it("should reject malformed and all-zero values", () => {
+      expect(parseTraceparent(undefined)).toBeUndefined();
+      expect(parseTraceparent("00-abc-def-01")).toBeUndefined();
+      expect(
+        parseTraceparent(`00-${"0".repeat(32)}-${PARENT_ID}-01`)
+      ).toBeUndefined();
+      expect(
+        parseTraceparent(`ff-${TRACE_ID}-${PARENT_ID}-01`)
+      ).toBeUndefined();
+    });
+  });
+
+  describe("parseXRayHeader", () => {
+    it("should convert the root to a W3C trace ID", () => {
+      expect(
+        parseXRayHeader(
+          "Root=1-5759e988-bd862e3fe1be46a994272793;Parent=53995c3f42cd8ad8;Sampled=0"
+        )
+      ).toEqual({
+        traceId: "5759e988bd862e3fe1be46a994272793",
+        parentId: "53995c3f42cd8ad8",
+        sampled: false,
+      });
+    });
+
+    it("should treat a missing Sampled field as sampled", () => {
+      expect(
+        parseXRayHeader("Root=1-64029d0a-1234567890abcdef12345678")
+      ).toEqual({
+        traceId: "64029d0a1234567890abcdef12345678",
+        parentId: undefined,
+        sampled: true,
+      });
+    });
+
+    it("should reject headers without a valid root", () => {
+      expect(parseXRayHeader("Parent=53995c3f42cd8ad8")).toBeUndefined();
+      expect(parseXRayHeader("Root=2-xyz")).toBeUndefined();
+    });
+
+    it("should round-trip through toXRayTraceId", () => {
+      expect(toXRayTraceId("5759e988bd862e3fe1be46a994272793")).toBe(
+        "1-5759e988-bd862e3fe1be46a994272793"
+      );
+    });
+  });
+
+  describe("extractTraceContext", () => {
+    it("should prefer traceparent and keep tracestate", () => {
+      expect(
+        extractTraceContext({
+          traceparent: `00-${TRACE_ID}-${PARENT_ID}-01`,
+          tracestate: "vendor=abc",
+          "x-amzn-trace-id": "Root=1-64029d0a-1234567890abcdef12345678",
+        })
+      ).toEqual({
+        traceId: TRACE_ID,
+        parentId: PARENT_ID,
+        sampled: true,
+        traceState: "vendor=abc",
+      });
+    });
+
+    it("should fall back to the runtime's trace header", () => {
+      expect(
+        extractTraceContext(
+          {},
+          { _X_AMZN_TRACE_ID: "Root=1-64029d0a-1234567890abcdef12345678" }
+        ).traceId
+      ).toBe("64029d0a1234567890abcdef12345678");
+    });
+
+    it("should start a new X-Ray compatible trace without one", () => {
+      const context = extractTraceContext({}, {});
+
+      expect(context.traceId).toMatch(/^[0-9a-f]{32}$/);
+      expect(context.sampled).toBe(true);
+      expect(parseInt(context.traceId.slice(0, 8), 16)).toBeCloseTo(
+        Date.now() / 1000,
+        -1
+      );
+    });
+  });
+
+  describe("Span", () => {
+    it("should export child spans with their parents once flushed", async () => {
+      const trace = new Trace({ traceId: TRACE_ID, sampled: true }, "root");
+      await trace.root.run("work", (span) => span.setAttribute("items", 2));
+      trace.root.end();
+
+      expect(exporter.spans).toEqual([]);
+      trace.flush();
+
+      const work = exporter.find("work")!;
+      expect(work).toMatchObject({
+        traceId: TRACE_ID,
+        parentId: trace.root.spanId,
+        attributes: { items: 2 },
+        status: "ok",
+      });
+      expect(exporter.find("root")!.parentId).toBeUndefined();
+    });
+
+    it("should record errors thrown by the work", async () => {
+      const trace = new Trace({ traceId: TRACE_ID, sampled: true }, "root");
+
+      await expect(
+        trace.root.run("fails", () => {
+          throw new Error("boom");
+        })
+      ).rejects.toThrow("boom");
+      trace.flush();
+
+      expect(exporter.find("fails")).toMatchObject({
+        status: "error",
+        error: "boom",
+      });
+    });
+
+    it("should not export unsampled traces", () => {
+      const trace = new Trace({ traceId: TRACE_ID, sampled: false }, "root");
+      trace.root.end();
+      trace.flush();
+
+      expect(exporter.spans).toEqual([]);
+    });
+
+    it("should build headers that continue the trace", () => {
+      const trace = new Trace(
+        { traceId: TRACE_ID, sampled: true, traceState: "vendor=abc" },
+        "root"
+      );
+      const span = trace.root.child("outbound");
+
+      expect(span.headers()).toEqual({
+        traceparent: `00-${TRACE_ID}-${span.spanId}-01`,
+        tracestate: "vendor=abc",
+        "x-amzn-trace-id": `Root=${toXRayTraceId(TRACE_ID)};Parent=${span.spanId};Sampled=1`,
+      });
+      expect(parseTraceparent(span.headers().traceparent)).toEqual({
+        traceId: TRACE_ID,
+        parentId: span.spanId,
+        sampled: true,
+      });
+    });
+  });
+
+  describe("ConsoleSpanExporter", () => {
+    it("should write one JSON line per span", () => {
+      const lines: string[] = [];
+      useSpanExporter(new ConsoleSpanExporter((line) => lines.push(line)));
+      const trace = new Trace({ traceId: newTraceId(), sampled: true }, "a");
+      trace.root.end();
+      trace.flush();
+
+      expect(lines).toHaveLength(1);
+      expect(JSON.parse(lines[0]).span).toMatchObject({ name: "a" });
+    });
+
+    it("should be used once the config asks for it", () => {
+      const lines: string[] = [];
+      jest.spyOn(process.stdout, "write").mockImplementation((chunk) => {
+        lines.push(String(chunk));
+        return true;
+      });
+      useSpanExporter();
+      overrideConfig({ tracing: { exporter: "console" } });
+      const trace = new Trace({ traceId: newTraceId(), sampled: true }, "a");
+      trace.root.end();
+      trace.flush();
+
+      expect(lines).toHaveLength(1);
+      expect(JSON.parse(lines[0]).span).toMatchObject({ name: "a" });
+    });
+  });
+
+  describe("handler", () => {
+    it("should continue an incoming X-Ray trace", async () => {
+      const result = await handler(
+        createMockApiGatewayEvent({
+          rawPath: "/api/info",
+          headers: {
+            "x-amzn-trace-id":
+              "Root=1-64029d0a-1234567890abcdef12345678;Parent=53995c3f42cd8ad8",
+          },
+        })
+      );
+
+      const traceId = "64029d0a1234567890abcdef12345678";
+      expect(result.headers!["x-trace-id"]).toBe(traceId);
+      expect(JSON.parse(result.body!).traceId).toBe(traceId);
+
+      const root = exporter.find("GET /api/info")!;
+      expect(root).toMatchObject({
+        traceId,
+        parentId: "53995c3f42cd8ad8",
+        attributes: {
+          "http.method": "GET",
+          "http.route": "/api/info",
+          "http.status_code": 200,
+        },
+        status: "ok",
+      });
+      expect(exporter.find("handler")).toMatchObject({
+        traceId,
+        parentId: root.spanId,
+        attributes: { "http.route": "/api/info" },
+      });
+    });
+
+    it("should continue an incoming W3C trace", async () => {
+      const result = await handler(
+        createMockApiGatewayEvent({
+          rawPath: "/healthz",
+          headers: { traceparent: `00-${TRACE_ID}-${PARENT_ID}-01` },
+        })
+      );
+
+      expect(result.headers!["x-trace-id"]).toBe(TRACE_ID);
+      expect(exporter.find("GET /healthz")!.parentId).toBe(PARENT_ID);
+    });
+
+    it("should trace requests that match no route", async () => {
+      const result = await handler(
+        createMockApiGatewayEvent({ rawPath: "/missing" })
+      );
+
+      expect(result.statusCode).toBe(404);
+      expect(result.headers!["x-trace-id"]).toMatch(/^[0-9a-f]{32}$/);
+      expect(exporter.spans.map((span) => span.name)).toEqual([
+        "GET unmatched",
+      ]);
+    });
+
+    it("should end the request span after a streamed body", async () => {
+      const streamed = await invokeStreaming(
+        streamHandler,
+        createMockApiGatewayEvent({
+          rawPath: "/api/events",
+          queryStringParameters: { interval: "100", limit: "2" },
+        })
+      );
+
+      expect(streamed.headers["x-trace-id"]).toMatch(/^[0-9a-f]{32}$/);
+      expect(exporter.find("GET /api/events")!.durationMs).toBeGreaterThan(90);
+    });
+  });
+});